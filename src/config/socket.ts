@@ -1,19 +1,103 @@
 import { Server, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
-import jwt from 'jsonwebtoken';
-import { IUser } from '../models/User';
-import mongoose from 'mongoose';
-import { ITransfer } from '../models/Transfer';
+import { Types } from 'mongoose';
+import { TransferStatus } from '../models/Transfer';
+import { TRANSFER_TRANSITIONS, TransferActor, transitionTransfer } from '../services/transferStatus';
+import { getAccessibleTransfer } from '../services/transferAccess';
+import { LocationInput, recordWorkerLocation } from '../services/tracking';
+import ErrorResponse from '../utils/errorResponse';
+import { AccessTokenPayload, verifyAccessToken } from '../services/tokens';
+import { loadAuthUser } from '../middleware/auth';
+import { subscribe } from '../services/events';
+import { countUnreadNotifications } from '../services/notifications';
 
 interface AuthenticatedSocket extends Socket {
-  user?: Partial<IUser>;
+  user?: AccessTokenPayload;
 }
 
 interface TransferStatusUpdate {
   transferId: string;
-  status: string;
+  status: TransferStatus;
+  reason?: string;
 }
 
+const MAX_REASON_LENGTH = 500;
+
+const ADMINS_ROOM = 'admins';
+
+let socketServer: Server | null = null;
+let unsubscribeBridge: (() => void) | null = null;
+
+// Populated references carry the ID in _id
+const idOf = (ref: unknown): string | undefined => {
+  if (!ref) return undefined;
+  const value = (ref as { _id?: unknown })._id ?? ref;
+  return String(value);
+};
+
+const userRooms = (...ids: unknown[]): string[] =>
+  ids.map(idOf).filter((id): id is string => Boolean(id)).map(id => `user-${id}`);
+
+/**
+ * Fan domain events out to the rooms of everyone concerned
+ */
+const bridgeDomainEvents = (io: Server): void => {
+  unsubscribeBridge?.();
+
+  const unsubscribers = [
+    subscribe('transfer.updated', ({ transfer, change }) => {
+      io.to([`transfer-${transfer._id}`, ...userRooms(transfer.userId, transfer.workerId), ADMINS_ROOM])
+        .emit('transfer:updated', { change, transfer });
+    }),
+
+    subscribe('complaint.responded', ({ complaint, response }) => {
+      io.to([...userRooms(complaint.userId, complaint.assignedToId), ADMINS_ROOM])
+        .emit('complaint:responded', { complaintId: complaint._id, status: complaint.status, response });
+    }),
+
+    subscribe('notification.created', ({ notification }) => {
+      if (notification.isGlobal) {
+        io.emit('notification:new', notification);
+        return;
+      }
+      // An empty room list would broadcast to every socket
+      const rooms = userRooms(...notification.targetUsers);
+      if (rooms.length > 0) {
+        io.to(rooms).emit('notification:new', notification);
+      }
+    }),
+
+    subscribe('notification.unread_count', ({ userId, count }) => {
+      io.to(`user-${userId}`).emit('notification:unreadCount', { count });
+    })
+  ];
+
+  unsubscribeBridge = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+const getActor = (socket: AuthenticatedSocket): TransferActor => ({
+  id: socket.user!.id,
+  role: socket.user!.role,
+  principal: socket.user!.principal
+});
+
+// Same rules as the REST validators for PUT /transfers/:id
+const validateStatusUpdate = (data: TransferStatusUpdate): TransferStatusUpdate => {
+  if (!data || typeof data.transferId !== 'string' || !Types.ObjectId.isValid(data.transferId)) {
+    throw new ErrorResponse('Invalid transfer ID', 400);
+  }
+  if (!Object.keys(TRANSFER_TRANSITIONS).includes(data.status)) {
+    throw new ErrorResponse('Invalid status', 400);
+  }
+  if (data.reason !== undefined && (typeof data.reason !== 'string' || data.reason.length > MAX_REASON_LENGTH)) {
+    throw new ErrorResponse(`Status reason cannot be more than ${MAX_REASON_LENGTH} characters`, 400);
+  }
+  return data;
+};
+
+// Socket.IO server instance, or null before initializeSocket has run
+export const getIO = (): Server | null => socketServer;
+
 export const initializeSocket = (httpServer: HttpServer) => {
   const io = new Server(httpServer, {
     cors: {
@@ -30,21 +114,44 @@ export const initializeSocket = (httpServer: HttpServer) => {
       return next(new Error('Authentication error'));
     }
 
-    try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as IUser;
-      socket.user = decoded;
-      next();
-    } catch (err) {
-      next(new Error('Authentication error'));
-    }
+    // Same checks as REST: access tokens of active sessions only
+    verifyAccessToken(token, loadAuthUser)
+      .then(({ payload }) => {
+        socket.user = payload;
+        next();
+      })
+      .catch(() => next(new Error('Authentication error')));
   });
 
   io.on('connection', (socket: AuthenticatedSocket) => {
     console.log('Client connected:', socket.id);
 
-    // Join transfer room
-    socket.on('joinTransferRoom', (transferId: string) => {
-      socket.join(`transfer-${transferId}`);
+    // Personal room for events addressed to this account, on every device
+    socket.join(`user-${socket.user!.id}`);
+
+    // Start the unread badge off with the current count
+    countUnreadNotifications(socket.user!.id)
+      .then(count => socket.emit('notification:unreadCount', { count }))
+      .catch(error => console.error('Error counting unread notifications:', error));
+
+    // Workers get a personal room for assignment events
+    if (socket.user?.principal === 'worker') {
+      socket.join(`worker-${socket.user.id}`);
+    }
+
+    // Role room for admin-wide events
+    if (socket.user?.principal === 'user' && socket.user.role === 'admin') {
+      socket.join(ADMINS_ROOM);
+    }
+
+    // Join transfer room, only for transfers the user may see
+    socket.on('joinTransferRoom', async (transferId: string) => {
+      try {
+        await getAccessibleTransfer(String(transferId), getActor(socket));
+        socket.join(`transfer-${transferId}`);
+      } catch (error) {
+        socket.emit('error', error instanceof ErrorResponse ? error.message : 'Failed to join transfer room');
+      }
     });
 
     // Leave transfer room
@@ -55,22 +162,33 @@ export const initializeSocket = (httpServer: HttpServer) => {
     // Handle transfer status updates
     socket.on('updateTransferStatus', async (data: TransferStatusUpdate) => {
       try {
-        const { transferId, status } = data;
-        
-        // Update transfer in database
-        const transfer = await mongoose.model<ITransfer>('Transfer').findByIdAndUpdate(
-          new mongoose.Types.ObjectId(transferId),
-          { status },
-          { new: true }
-        );
-
-        if (transfer) {
-          // Broadcast update to all clients in the transfer room
-          io.to(`transfer-${transferId}`).emit('transferStatusUpdated', transfer);
-        }
+        const { transferId, status, reason } = validateStatusUpdate(data);
+
+        // Update transfer through the same state machine and permission checks as the REST API
+        const transfer = await transitionTransfer(transferId, status, getActor(socket), reason);
+
+        // Broadcast update to all clients in the transfer room
+        io.to(`transfer-${transferId}`).emit('transferStatusUpdated', transfer);
       } catch (error) {
         console.error('Error updating transfer status:', error);
-        socket.emit('error', 'Failed to update transfer status');
+        socket.emit('error', error instanceof ErrorResponse ? error.message : 'Failed to update transfer status');
+      }
+    });
+
+    // Workers stream GPS positions for the transfer they are carrying out
+    socket.on('updateWorkerLocation', async (data: LocationInput) => {
+      try {
+        if (socket.user?.principal !== 'worker') {
+          throw new ErrorResponse('Only workers can share their location', 403);
+        }
+
+        const update = await recordWorkerLocation(socket.user.id, data);
+
+        // Broadcast the position and ETA to everyone following the transfer
+        io.to(`transfer-${update.transferId}`).emit('workerLocationUpdated', update);
+      } catch (error) {
+        console.error('Error updating worker location:', error);
+        socket.emit('error', error instanceof ErrorResponse ? error.message : 'Failed to update worker location');
       }
     });
 
@@ -79,5 +197,8 @@ export const initializeSocket = (httpServer: HttpServer) => {
     });
   });
 
+  bridgeDomainEvents(io);
+
+  socketServer = io;
   return io;
 }; 
\ No newline at end of file
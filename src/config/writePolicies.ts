@@ -0,0 +1,36 @@
+import { FieldPolicy } from '../middleware/fieldPolicy';
+
+// Profile fields every account holder may change on their own record
+const PROFILE_FIELDS = ['name', 'phone', 'preferredLang', 'region', 'timeFormat', 'image'];
+
+// PUT /api/v1/users/:id
+export const USER_WRITE_POLICY: FieldPolicy = {
+  admin: [...PROFILE_FIELDS, 'email', 'identityNumber', 'isAvailable', 'role', 'specialization', 'address', 'informationPreference'],
+  customer: [...PROFILE_FIELDS, 'email', 'address', 'informationPreference'],
+  worker: [...PROFILE_FIELDS, 'isAvailable']
+};
+
+// PUT /api/v1/workers/:id. Ratings and job counts only come from completed transfers.
+export const WORKER_WRITE_POLICY: FieldPolicy = {
+  admin: [...PROFILE_FIELDS, 'email', 'identityNumber', 'isAvailable', 'role', 'specialization', 'skills', 'certificates', 'experience'],
+  worker: [...PROFILE_FIELDS, 'isAvailable', 'skills', 'certificates']
+};
+
+// PUT /api/v1/transfers/:id. Payment status, ratings and timestamps are set by the server;
+// workers are assigned through POST /api/v1/transfers/:id/assign.
+export const TRANSFER_WRITE_POLICY: FieldPolicy = {
+  admin: [
+    'items', 'totalAmount', 'scheduledDate', 'from', 'to', 'toCoordinates', 'flightGate', 'flightNumber',
+    'pickUpDate', 'pickUpTime', 'pickUpTimezone', 'status', 'statusReason', 'complaintId'
+  ]
+};
+
+// PUT /api/v1/complaints/:id. Closing details are recorded by the server.
+export const COMPLAINT_WRITE_POLICY: FieldPolicy = {
+  admin: ['title', 'description', 'category', 'priority', 'status', 'assignedToId', 'relatedWorkerId', 'resolution', 'attachments']
+};
+
+// PUT /api/v1/ads/:id
+export const AD_WRITE_POLICY: FieldPolicy = {
+  admin: ['url', 'image', 'expireDate']
+};
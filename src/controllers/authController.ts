@@ -1,8 +1,42 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
-import jwt, { SignOptions } from 'jsonwebtoken';
-import User, { IUser } from '../models/User';
+import User from '../models/User';
+import Worker from '../models/Worker';
 import ErrorResponse from '../utils/errorResponse';
+import { AuthPrincipal, AuthUser } from '../middleware/auth';
+import {
+  issueTokens,
+  listActiveSessions,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  SessionMeta
+} from '../services/tokens';
+import {
+  consumeAccountToken,
+  sendPasswordChangedEmail,
+  sendPasswordResetEmail,
+  sendVerificationEmail
+} from '../services/accountTokens';
+import { acceptAdminInvite, createAdminInvite } from '../services/adminInvites';
+import {
+  getLoginBlock,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockAccount
+} from '../services/loginProtection';
+import {
+  confirmTwoFactorEnrolment,
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isEnrolmentCodeValid,
+  regenerateBackupCodes,
+  startTwoFactorEnrolment,
+  verifyTwoFactorChallenge,
+  verifyTwoFactorCode
+} from '../services/twoFactor';
+import { assertEmailNotInTrash } from '../services/trash';
 
 interface RegisterRequestBody {
   name: string;
@@ -10,23 +44,70 @@ interface RegisterRequestBody {
   phone: string;
   password: string;
   identityNumber?: string;
-  role?: 'admin' | 'customer' | 'worker';
-  specialization?: string;
   address?: string;
 }
 
+interface AcceptInviteRequestBody {
+  token: string;
+  name: string;
+  phone: string;
+  password: string;
+  identityNumber?: string;
+}
+
+interface ChangePasswordRequestBody {
+  currentPassword: string;
+  newPassword: string;
+}
+
 interface LoginRequestBody {
   email: string;
   password: string;
 }
 
-interface TokenResponse {
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-  refresh_expires_in: number;
+interface TwoFactorChallengeRequestBody {
+  challenge_token: string;
+  code: string;
+}
+
+interface TwoFactorChallengeEnrolRequestBody {
+  challenge_token: string;
+  email_code: string;
+}
+
+interface DisableTwoFactorRequestBody {
+  password: string;
+  code: string;
+}
+
+interface UnlockAccountRequestBody {
+  email: string;
+  principal?: AuthPrincipal;
 }
 
+// Answer 429 with Retry-After when failed logins have blocked the account or IP
+const rejectBlockedLogin = async (
+  principal: AuthPrincipal,
+  email: string,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<boolean> => {
+  const block = await getLoginBlock(principal, email, req.ip);
+  if (!block) {
+    return false;
+  }
+
+  res.setHeader('Retry-After', String(block.retryAfterSeconds));
+  next(new ErrorResponse(
+    block.scope === 'account'
+      ? `Too many failed login attempts. Try again in ${block.retryAfterSeconds} seconds`
+      : `Too many failed login attempts from this address. Try again in ${block.retryAfterSeconds} seconds`,
+    429
+  ));
+  return true;
+};
+
 /**
  * @desc    Register user
  * @route   POST /api/v1/auth/register
@@ -44,13 +125,7 @@ export const register = async (
       return;
     }
 
-    const { name, email, phone, password, identityNumber, role, specialization, address } = req.body;
-
-    // Prevent worker registration through this endpoint
-    if (role === 'worker') {
-      next(new ErrorResponse('Worker accounts can only be created by administrators', 403));
-      return;
-    }
+    const { name, email, phone, password, identityNumber, address } = req.body;
 
     // Check if user exists
     const userExists = await User.findOne({ email });
@@ -58,20 +133,23 @@ export const register = async (
       next(new ErrorResponse('User already exists', 400));
       return;
     }
+    await assertEmailNotInTrash(User, email);
 
-    // Create user - allow admin or customer role, default to customer
+    // Self-service registration only ever creates customers; admins are invited
     const user = await User.create({
       name,
       email,
       phone,
       password,
       identityNumber,
-      role: role === 'admin' ? 'admin' : 'customer', // Allow admin role if specified, otherwise default to customer
-      specialization,
+      role: 'customer',
       address
     });
 
-    sendTokenResponse(user, 201, res);
+    // A mail failure should not fail the registration; the user can ask for a new link
+    sendVerificationEmail(user).catch(err => console.error('Error sending verification email:', err));
+
+    await sendTokenResponse(user, 201, req, res);
   } catch (err) {
     next(err);
   }
@@ -96,23 +174,73 @@ export const login = async (
 
     const { email, password } = req.body;
 
+    if (await rejectBlockedLogin('user', email, req, res, next)) {
+      return;
+    }
+
     // Check for user
     const user = await User.findOne({ email }).select('+password');
 
-    if (!user) {
+    // Check if password matches
+    const isMatch = user ? await user.comparePassword(password) : false;
+
+    if (!user || !isMatch) {
+      await recordLoginFailure('user', email, req.ip);
       next(new ErrorResponse('Invalid credentials', 401));
       return;
     }
 
+    await recordLoginSuccess('user', email);
+
+    if (process.env.REQUIRE_EMAIL_VERIFICATION === 'true' && !user.emailVerified) {
+      next(new ErrorResponse('Please verify your email address before logging in', 403));
+      return;
+    }
+
+    await sendLoginResponse(user, 200, req, res);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Login worker
+ * @route   POST /api/v1/auth/worker/login
+ * @access  Public
+ */
+export const workerLogin = async (
+  req: Request<{}, {}, LoginRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { email, password } = req.body;
+
+    if (await rejectBlockedLogin('worker', email, req, res, next)) {
+      return;
+    }
+
+    // Check for worker
+    const worker = await Worker.findOne({ email }).select('+password');
+
     // Check if password matches
-    const isMatch = await user.comparePassword(password);
+    const isMatch = worker ? await worker.comparePassword(password) : false;
 
-    if (!isMatch) {
+    if (!worker || !isMatch) {
+      await recordLoginFailure('worker', email, req.ip);
       next(new ErrorResponse('Invalid credentials', 401));
       return;
     }
 
-    sendTokenResponse(user, 200, res);
+    await recordLoginSuccess('worker', email);
+
+    await sendLoginResponse(worker, 200, req, res, 'worker');
   } catch (err) {
     next(err);
   }
@@ -129,6 +257,19 @@ export const getMe = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (req.principal === 'worker') {
+      const worker = await Worker.findById(req.user?._id);
+      if (!worker) {
+        res.status(404).json({ success: false, message: 'Worker not found' });
+        return;
+      }
+      res.status(200).json({
+        success: true,
+        data: worker
+      });
+      return;
+    }
+
     const user = await User.findById(req.user?._id);
     if (!user) {
       res.status(404).json({ success: false, message: 'User not found' });
@@ -148,33 +289,501 @@ export const getMe = async (
 };
 
 /**
- * @desc    Log user out / clear cookie
+ * @desc    Log user out by revoking the current session
  * @route   GET /api/v1/auth/logout
  * @access  Private
  */
-export const logout = (
+export const logout = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
-  res.status(200).json({
-    success: true,
-    data: {}
-  });
+): Promise<void> => {
+  try {
+    if (req.sessionId) {
+      await revokeSession(req.sessionId);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Log out of all devices by revoking every session
+ * @route   POST /api/v1/auth/logout-all
+ * @access  Private
+ */
+export const logoutAll = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const revoked = await revokeAllSessions(req.user!._id, req.principal ?? 'user');
+
+    res.status(200).json({
+      success: true,
+      data: { revokedSessions: revoked }
+    });
+  } catch (err) {
+    next(err);
+  }
 };
 
-// Get token from model, create cookie and send response
-const sendTokenResponse = (user: IUser, statusCode: number, res: Response): void => {
-  // Create tokens
-  const accessToken = generateToken(user, 'access');
-  const refreshToken = generateToken(user, 'refresh');
+/**
+ * @desc    Change the password of the logged in user or worker
+ * @route   PUT /api/v1/auth/password
+ * @access  Private
+ */
+export const changePassword = async (
+  req: Request<{}, {}, ChangePasswordRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const principal: AuthPrincipal = req.principal ?? 'user';
+    const account = principal === 'worker'
+      ? await Worker.findById(req.user!._id).select('+password')
+      : await User.findById(req.user!._id).select('+password');
+
+    if (!account) {
+      next(new ErrorResponse('User not found', 404));
+      return;
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    if (!(await account.comparePassword(currentPassword))) {
+      next(new ErrorResponse('Current password is incorrect', 401));
+      return;
+    }
+    if (await account.comparePassword(newPassword)) {
+      next(new ErrorResponse('New password must be different from the current password', 400));
+      return;
+    }
+
+    account.password = newPassword;
+    await account.save();
 
-  const response: TokenResponse = {
-    access_token: accessToken,
-    refresh_token: refreshToken,
-    expires_in: Date.now() + (process.env.JWT_EXPIRE ? parseInt(process.env.JWT_EXPIRE) * 1000 : 3600000), // 1 hour default
-    refresh_expires_in: Date.now() + (process.env.JWT_REFRESH_EXPIRE ? parseInt(process.env.JWT_REFRESH_EXPIRE) * 1000 : 604800000) // 7 days default
-  };
+    // Keep this device signed in and sign out every other one
+    const revoked = await revokeAllSessions(account._id, principal, 'password_changed', req.sessionId);
+    // The password is already changed; a mail failure must not turn that into an error
+    sendPasswordChangedEmail(account).catch(err => console.error('Error sending password changed email:', err));
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'Password changed successfully', revokedSessions: revoked }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    List the active sessions (signed in devices) of the logged in user
+ * @route   GET /api/v1/auth/sessions
+ * @access  Private
+ */
+export const getSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessions = await listActiveSessions(req.user!._id, req.principal ?? 'user');
+
+    res.status(200).json({
+      success: true,
+      count: sessions.length,
+      data: sessions.map(session => ({
+        ...session.toObject(),
+        current: session._id.toString() === req.sessionId
+      }))
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Invite a new administrator by email
+ * @route   POST /api/v1/auth/admin-invites
+ * @access  Private/Admin
+ */
+export const inviteAdmin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const invite = await createAdminInvite(req.body.email, req.user!._id);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        _id: invite._id,
+        email: invite.email,
+        expiresAt: invite.expiresAt
+      }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Get the two-factor authentication status of the logged in user
+ * @route   GET /api/v1/auth/2fa
+ * @access  Private
+ */
+export const getTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const status = await getTwoFactorStatus(req.user!, req.principal ?? 'user');
+
+    res.status(200).json({
+      success: true,
+      data: status
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Start two-factor enrolment and return the secret for the authenticator app
+ * @route   POST /api/v1/auth/2fa/enrol
+ * @access  Private
+ */
+export const enrolTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const enrolment = await startTwoFactorEnrolment(req.user!, req.principal ?? 'user');
+
+    res.status(200).json({
+      success: true,
+      data: enrolment
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Confirm two-factor enrolment with a code and get backup codes
+ * @route   POST /api/v1/auth/2fa/verify
+ * @access  Private
+ */
+export const verifyTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const backupCodes = await confirmTwoFactorEnrolment(req.user!._id, req.principal ?? 'user', req.body.code);
+
+    res.status(200).json({
+      success: true,
+      data: { backup_codes: backupCodes }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Turn off two-factor authentication
+ * @route   POST /api/v1/auth/2fa/disable
+ * @access  Private
+ */
+export const disableTwoFactorAuth = async (
+  req: Request<{}, {}, DisableTwoFactorRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const principal: AuthPrincipal = req.principal ?? 'user';
+    const account = principal === 'worker'
+      ? await Worker.findById(req.user!._id).select('+password')
+      : await User.findById(req.user!._id).select('+password');
+
+    if (!account) {
+      next(new ErrorResponse('User not found', 404));
+      return;
+    }
+
+    if (!(await account.comparePassword(req.body.password))) {
+      next(new ErrorResponse('Password is incorrect', 401));
+      return;
+    }
+    if (!(await verifyTwoFactorCode(account._id, principal, req.body.code))) {
+      next(new ErrorResponse('Invalid two-factor code', 401));
+      return;
+    }
+
+    await disableTwoFactor(account, principal);
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'Two-factor authentication disabled' }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Replace the backup codes of the logged in user
+ * @route   POST /api/v1/auth/2fa/backup-codes
+ * @access  Private
+ */
+export const regenerateTwoFactorBackupCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const principal: AuthPrincipal = req.principal ?? 'user';
+    if (!(await verifyTwoFactorCode(req.user!._id, principal, req.body.code))) {
+      next(new ErrorResponse('Invalid two-factor code', 401));
+      return;
+    }
+
+    const backupCodes = await regenerateBackupCodes(req.user!._id, principal);
+
+    res.status(200).json({
+      success: true,
+      data: { backup_codes: backupCodes }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Start the mandatory two-factor enrolment of an account during login,
+ *          with the code emailed at login
+ * @route   POST /api/v1/auth/2fa/challenge/enrol
+ * @access  Public (requires a challenge token)
+ */
+export const enrolTwoFactorChallenge = async (
+  req: Request<{}, {}, TwoFactorChallengeEnrolRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const challenge = verifyTwoFactorChallenge(req.body.challenge_token);
+    const { principal } = challenge;
+    const account = await loadAccount(challenge.id, principal);
+
+    if (!account) {
+      next(new ErrorResponse('Invalid or expired challenge token', 401));
+      return;
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    if (await rejectBlockedLogin(principal, account.email, req, res, next)) {
+      return;
+    }
+
+    if (!isEnrolmentCodeValid(challenge, req.body.email_code)) {
+      await recordLoginFailure(principal, account.email, req.ip);
+      next(new ErrorResponse('Invalid enrolment code', 401));
+      return;
+    }
+
+    const enrolment = await startTwoFactorEnrolment(account, principal);
+
+    res.status(200).json({
+      success: true,
+      data: enrolment
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Finish logging in with a two-factor or backup code
+ * @route   POST /api/v1/auth/2fa/challenge
+ * @access  Public (requires a challenge token)
+ */
+export const completeTwoFactorChallenge = async (
+  req: Request<{}, {}, TwoFactorChallengeRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, principal } = verifyTwoFactorChallenge(req.body.challenge_token);
+    const account = await loadAccount(id, principal);
+
+    if (!account) {
+      next(new ErrorResponse('Invalid or expired challenge token', 401));
+      return;
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    if (await rejectBlockedLogin(principal, account.email, req, res, next)) {
+      return;
+    }
+
+    const status = await getTwoFactorStatus(account, principal);
+    let backupCodes: string[] | undefined;
+
+    if (status.enabled) {
+      if (!(await verifyTwoFactorCode(account._id, principal, req.body.code))) {
+        await recordLoginFailure(principal, account.email, req.ip);
+        next(new ErrorResponse('Invalid two-factor code', 401));
+        return;
+      }
+    } else {
+      // Accounts that must enrol confirm their enrolment here
+      try {
+        backupCodes = await confirmTwoFactorEnrolment(account._id, principal, req.body.code);
+      } catch (err) {
+        await recordLoginFailure(principal, account.email, req.ip);
+        throw err;
+      }
+    }
+
+    await recordLoginSuccess(principal, account.email);
+    const tokens = await issueTokens(account, principal, getSessionMeta(req), true);
+
+    res.status(200).json({
+      success: true,
+      data: backupCodes ? { ...tokens, backup_codes: backupCodes } : tokens
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Clear failed logins and lift a lockout on an account
+ * @route   POST /api/v1/auth/unlock-account
+ * @access  Private/Admin
+ */
+export const unlockLogin = async (
+  req: Request<{}, {}, UnlockAccountRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const principal = req.body.principal ?? 'user';
+    const hadFailures = await unlockAccount(principal, req.body.email);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        email: req.body.email,
+        principal,
+        hadFailures
+      }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Accept an admin invite and create the admin account
+ * @route   POST /api/v1/auth/admin-invites/accept
+ * @access  Public
+ */
+export const acceptInvite = async (
+  req: Request<{}, {}, AcceptInviteRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { token, name, phone, password, identityNumber } = req.body;
+    const user = await acceptAdminInvite({ token, name, phone, password, identityNumber });
+
+    // New admins must enrol a second factor before they get tokens
+    await sendLoginResponse(user, 201, req, res);
+  } catch (err) {
+    next(err);
+  }
+};
+
+const getSessionMeta = (req: Request): SessionMeta => ({
+  userAgent: req.get('user-agent'),
+  ip: req.ip
+});
+
+// Start a session for the user and send its tokens
+const sendTokenResponse = async (
+  user: AuthUser,
+  statusCode: number,
+  req: Request,
+  res: Response,
+  principal: AuthPrincipal = 'user'
+): Promise<void> => {
+  const response = await issueTokens(user, principal, getSessionMeta(req));
 
   res.status(statusCode).json({
     success: true,
@@ -182,28 +791,31 @@ const sendTokenResponse = (user: IUser, statusCode: number, res: Response): void
   });
 };
 
-const generateToken = (user: IUser, type: 'access' | 'refresh'): string => {
-  let expiresIn: number;
-
-  if (type === 'access') {
-    expiresIn = process.env.JWT_EXPIRE ? parseInt(process.env.JWT_EXPIRE) : 3600;
-  } else {
-    expiresIn = process.env.JWT_REFRESH_EXPIRE ? parseInt(process.env.JWT_REFRESH_EXPIRE) : 604800;
+// Send tokens, or a two-factor challenge when the account needs a second factor first
+const sendLoginResponse = async (
+  account: AuthUser,
+  statusCode: number,
+  req: Request,
+  res: Response,
+  principal: AuthPrincipal = 'user'
+): Promise<void> => {
+  const challenge = await createTwoFactorChallenge(account, principal);
+  if (challenge) {
+    res.status(statusCode).json({
+      success: true,
+      data: challenge
+    });
+    return;
   }
 
-  const options: SignOptions = {
-    expiresIn
-  };
-
-  return jwt.sign(
-    { id: user._id , role: user.role},
-    process.env.JWT_SECRET ?? 'your-secret-key',
-    options
-  );
+  await sendTokenResponse(account, statusCode, req, res, principal);
 };
 
+const loadAccount = (id: string, principal: AuthPrincipal): Promise<AuthUser | null> =>
+  principal === 'worker' ? Worker.findById(id) : User.findById(id);
+
 /**
- * @desc    Refresh access token
+ * @desc    Rotate refresh token and issue a new access token
  * @route   POST /api/v1/auth/refresh
  * @access  Public
  */
@@ -220,23 +832,159 @@ export const refreshToken = async (
       return;
     }
 
-    // Verify refresh token
-    const decoded = jwt.verify(
+    const response = await rotateRefreshToken(
       refresh_token,
-      process.env.JWT_SECRET ?? 'your-secret-key'
-    ) as { id: string };
+      loadAccount,
+      getSessionMeta(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: response
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Send a password reset link
+ * @route   POST /api/v1/auth/forgot-password
+ * @access  Public
+ */
+export const forgotPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const user = await User.findOne({ email: req.body.email });
+
+    if (user) {
+      // Not awaited: a mail failure or delay must not reveal that the account exists
+      sendPasswordResetEmail(user).catch(err => console.error('Error sending password reset email:', err));
+    }
 
-    // Get user from token
-    const user = await User.findById(decoded.id);
+    // Same response whether or not the email exists, so accounts cannot be enumerated
+    res.status(200).json({
+      success: true,
+      data: { message: 'If an account exists for this email, a reset link has been sent' }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Reset password with a reset token
+ * @route   POST /api/v1/auth/reset-password
+ * @access  Public
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = await consumeAccountToken(req.body.token, 'password_reset');
+    const user = await User.findById(userId);
 
     if (!user) {
       next(new ErrorResponse('User not found', 404));
       return;
     }
 
-    // Generate new tokens
-    sendTokenResponse(user, 200, res);
+    user.password = req.body.password;
+    // Receiving the reset email proves ownership of the address
+    user.emailVerified = true;
+    await user.save();
+
+    // Sign out every device that may have used the old password
+    await revokeAllSessions(user._id, 'user', 'password_changed');
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'Password has been reset, please log in again' }
+    });
   } catch (err) {
-    next(new ErrorResponse('Invalid refresh token', 401));
+    next(err);
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * @desc    Verify email address with a verification token
+ * @route   POST /api/v1/auth/verify-email
+ * @access  Public
+ */
+export const verifyEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = await consumeAccountToken(req.body.token, 'email_verification');
+    const user = await User.findByIdAndUpdate(userId, { emailVerified: true }, { new: true });
+
+    if (!user) {
+      next(new ErrorResponse('User not found', 404));
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { emailVerified: true }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Send a new email verification link
+ * @route   POST /api/v1/auth/resend-verification
+ * @access  Public
+ */
+export const resendVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const user = await User.findOne({ email: req.body.email });
+
+    if (user && !user.emailVerified) {
+      await sendVerificationEmail(user);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'If the email needs verification, a new link has been sent' }
+    });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -3,9 +3,14 @@ import { validationResult } from 'express-validator';
 import Complaint, { IComplaint } from '../models/Complaint';
 import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
 import { Types } from 'mongoose';
-import { IUser } from '../models/User';
+import { AuthUser, AuthPrincipal } from '../middleware/auth';
 import ErrorResponse from '../utils/errorResponse';
 import Transfer from '../models/Transfer';
+import { refundTransfer } from '../services/payments';
+import { toSearchPattern } from '../utils/listQuery';
+import { publish } from '../services/events';
+import { notifyFromTemplate } from '../services/notifications';
+import { listDeleted, restoreDeleted, softDelete } from '../services/trash';
 
 // Define complaint status enum
 const ComplaintStatus = {
@@ -21,7 +26,8 @@ type ComplaintStatus = (typeof ComplaintStatus)[keyof typeof ComplaintStatus];
 // Extend Express Request type to include user
 declare module 'express' {
   interface Request {
-    user?: IUser;
+    user?: AuthUser;
+    principal?: AuthPrincipal;
   }
 }
 
@@ -165,9 +171,10 @@ export const getComplaints = async (
 
     // Search in title and description
     if (search) {
+      const pattern = toSearchPattern(search);
       query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } }
+        { title: { $regex: pattern, $options: 'i' } },
+        { description: { $regex: pattern, $options: 'i' } }
       ];
     }
 
@@ -250,7 +257,7 @@ export const getComplaint = async (
     }
 
     // Make sure user is complaint owner or admin
-    if (complaint.userId.toString() !== req.user!._id.toString() && req.user!.role !== 'admin') {
+    if (complaint.userId?.toString() !== req.user!._id.toString() && req.user!.role !== 'admin') {
       errorResponse(res, STATUS_CODES.FORBIDDEN, 'Not authorized to access this complaint');
       return;
     }
@@ -319,7 +326,7 @@ export const addResponse = async (
     }
 
     // Check if user is authorized (must be complaint owner or admin)
-    if (complaint.userId.toString() !== req.user!._id.toString() && req.user!.role !== 'admin') {
+    if (complaint.userId?.toString() !== req.user!._id.toString() && req.user!.role !== 'admin') {
       errorResponse(res, STATUS_CODES.FORBIDDEN, 'Not authorized to respond to this complaint');
       return;
     }
@@ -352,6 +359,11 @@ export const addResponse = async (
 
     await complaint.save();
 
+    publish('complaint.responded', {
+      complaint,
+      response: complaint.responses[complaint.responses.length - 1]
+    });
+
     // Fetch the updated complaint with populated fields
     const updatedComplaint = await Complaint.findById(req.params.id)
       .populate('userId', 'name email role')
@@ -388,6 +400,8 @@ export const updateComplaint = async (
       return;
     }
 
+    const { status: previousStatus, userId: ownerId } = complaint;
+
     // If status is being changed to closed, add closedAt and closedByAdminId
     if (req.body.status === ComplaintStatus.CLOSED) {
       req.body.closedAt = new Date();
@@ -409,6 +423,14 @@ export const updateComplaint = async (
     .populate('closedByAdminId', 'name email role')
     .populate('responses.responderId', 'name email role');
 
+    if (complaint && previousStatus !== ComplaintStatus.RESOLVED && complaint.status === ComplaintStatus.RESOLVED) {
+      await notifyFromTemplate('complaint_resolved', [ownerId], {
+        title: complaint.title,
+        resolution: complaint.resolution,
+        resolvedAt: new Date()
+      }, { createdBy: req.user!._id });
+    }
+
     successResponse(res, STATUS_CODES.OK, 'Complaint updated successfully', complaint);
   } catch (err) {
     next(err);
@@ -416,7 +438,50 @@ export const updateComplaint = async (
 };
 
 /**
- * @desc    Delete complaint (Admin only)
+ * @desc    Refund the transfer of a resolved complaint (Admin only)
+ * @route   POST /api/v1/complaints/:id/refund
+ * @access  Private/Admin
+ */
+export const refundComplaint = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const complaint = await Complaint.findById(req.params.id);
+
+    if (!complaint) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, `Complaint not found with id of ${req.params.id}`);
+      return;
+    }
+
+    if (complaint.status !== ComplaintStatus.RESOLVED) {
+      errorResponse(res, STATUS_CODES.CONFLICT, 'Only resolved complaints can be refunded');
+      return;
+    }
+
+    const payment = await refundTransfer(complaint.transferId, {
+      amount: req.body.amount,
+      reason: req.body.reason ?? complaint.resolution,
+      complaintId: complaint._id,
+      actorId: req.user!._id
+    });
+
+    successResponse(res, STATUS_CODES.CREATED, 'Refund issued successfully', payment);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Delete complaint (Admin only). The complaint is moved to the trash
+ *          and can be restored until the purge job removes it.
  * @route   DELETE /api/v1/complaints/:id
  * @access  Private/Admin
  */
@@ -429,20 +494,62 @@ export const deleteComplaint = async (
     if (!req.user || req.user.role !== 'admin') {
       return next(new ErrorResponse('Not authorized to access this route', 401));
     }
-    const complaint = await Complaint.findById(req.params.id);
+    const complaint = await softDelete(Complaint, req.params.id, req.user._id);
 
     if (!complaint) {
       errorResponse(res, STATUS_CODES.NOT_FOUND, `Complaint not found with id of ${req.params.id}`);
       return;
     }
 
-    await complaint.deleteOne();
     successResponse(res, STATUS_CODES.OK, 'Complaint deleted successfully', null);
   } catch (err) {
     next(err);
   }
 };
 
+/**
+ * @desc    Get deleted complaints (Admin only)
+ * @route   GET /api/v1/complaints/deleted
+ * @access  Private/Admin
+ */
+export const getDeletedComplaints = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { data, pagination } = await listDeleted(Complaint, req.query);
+
+    successResponse(res, STATUS_CODES.OK, 'Deleted complaints retrieved successfully', data, { pagination });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Restore a deleted complaint (Admin only)
+ * @route   PUT /api/v1/complaints/:id/restore
+ * @access  Private/Admin
+ */
+export const restoreComplaint = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const complaint = await restoreDeleted(Complaint, req.params.id);
+
+    if (!complaint) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, `Deleted complaint not found with id of ${req.params.id}`);
+      return;
+    }
+
+    successResponse(res, STATUS_CODES.OK, 'Complaint restored successfully', complaint);
+  } catch (err) {
+    next(err);
+  }
+};
+
 /**
  * @desc    Add a specific complaint with ID 5
  * @route   POST /api/v1/complaints/add-five
@@ -1,17 +1,37 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import Notification from '../models/Notification';
+import NotificationDelivery from '../models/NotificationDelivery';
 import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
 import ErrorResponse from '../utils/errorResponse';
 import mongoose, { Types } from 'mongoose';
+import { ListQueryOptions, parseListQuery, runListQuery } from '../utils/listQuery';
+import {
+  countUnreadNotifications,
+  createNotification as createAndPublishNotification,
+  publishUnreadCount,
+  unreadNotificationsFilter
+} from '../services/notifications';
 
 interface NotificationFilters {
   type?: string;
+  sortBy?: string;
+  order?: 'asc' | 'desc';
   page?: string;
   limit?: string;
+  cursor?: string;
   search?: string;
 }
 
+const NOTIFICATION_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['createdAt', 'expiresAt', 'type'],
+  filters: {
+    type: 'exact',
+    isGlobal: 'boolean'
+  },
+  searchFields: ['title', 'message']
+};
+
 interface NotificationRequestBody {
   title: string;
   message: string;
@@ -35,43 +55,13 @@ export const getNotifications = async (
     if (!req.user || req.user.role !== 'admin') {
       return next(new ErrorResponse('Not authorized to access this route', 401));
     }
-    const { type, page = '1', limit = '10', search } = req.query;
-
-    // Build query
-    const query: Record<string, any> = {};
-    
-    if (type) {
-      query.type = type;
-    }
-
-    if (search) {
-      query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { message: { $regex: search, $options: 'i' } }
-      ];
-    }
-
-    // Pagination
-    const pageNum = parseInt(page, 10);
-    const limitNum = parseInt(limit, 10);
-    const startIndex = (pageNum - 1) * limitNum;
-    const total = await Notification.countDocuments(query);
-
-    const notifications = await Notification.find(query)
+    const list = parseListQuery(req.query, NOTIFICATION_LIST_OPTIONS);
+    const { data, pagination } = await runListQuery(Notification, {}, list, query => query
       .populate('createdBy', 'name email')
       .populate('targetUsers', 'name email')
-      .populate('readBy.user', 'name email')
-      .sort('-createdAt')
-      .skip(startIndex)
-      .limit(limitNum);
-
-    successResponse(res, STATUS_CODES.OK, 'Notifications retrieved successfully', notifications, {
-      pagination: {
-        total,
-        page: pageNum,
-        pages: Math.ceil(total / limitNum)
-      }
-    });
+      .populate('readBy.user', 'name email'));
+
+    successResponse(res, STATUS_CODES.OK, 'Notifications retrieved successfully', data, { pagination });
   } catch (err) {
     next(err);
   }
@@ -115,6 +105,56 @@ export const getMyNotifications = async (
   }
 };
 
+/**
+ * @desc    Get the number of unread notifications of the logged in user
+ * @route   GET /api/v1/notifications/unread-count
+ * @access  Private
+ */
+export const getUnreadCount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const count = await countUnreadNotifications(req.user!._id);
+    successResponse(res, STATUS_CODES.OK, 'Unread count retrieved successfully', { count });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Get email and SMS delivery status of a notification (Admin only)
+ * @route   GET /api/v1/notifications/:id/deliveries
+ * @access  Private/Admin
+ */
+export const getNotificationDeliveries = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const notification = await Notification.findById(req.params.id);
+
+    if (!notification) {
+      next(new ErrorResponse(`Notification not found with id of ${req.params.id}`, 404));
+      return;
+    }
+
+    const deliveries = await NotificationDelivery.find({ notificationId: notification._id })
+      .populate('recipientId', 'name email phone')
+      .sort('recipientId channel');
+
+    const summary = { pending: 0, sent: 0, failed: 0, skipped: 0 };
+    deliveries.forEach(delivery => {
+      summary[delivery.status] += 1;
+    });
+
+    successResponse(res, STATUS_CODES.OK, 'Notification deliveries retrieved successfully', { summary, deliveries });
+  } catch (err) {
+    next(err);
+  }
+};
 
 /**
  * @desc    Get single notification
@@ -178,7 +218,7 @@ export const createNotification = async (
       return;
     }
 
-    const notification = await Notification.create(req.body);
+    const notification = await createAndPublishNotification(req.body);
     successResponse(res, STATUS_CODES.CREATED, 'Notification created successfully', notification);
   } catch (err) {
     errorResponse(res, STATUS_CODES.INTERNAL_SERVER_ERROR, 'Error creating notification', err);
@@ -198,15 +238,8 @@ export const markAllAsRead = async (
   try {
     const userId = req.user!._id;
 
-    // Find notifications for this user (global or targeted)
-    const notifications = await Notification.find({
-      $or: [
-        { isGlobal: true },
-        { targetUsers: userId }
-      ],
-      expiresAt: { $gt: new Date() },
-      'readBy.user': { $ne: userId } // not yet read
-    });
+    // Find unread notifications for this user (global or targeted)
+    const notifications = await Notification.find(unreadNotificationsFilter(userId));
 
     // Update only unread notifications
     const bulkOps = notifications.map(notification => ({
@@ -227,6 +260,8 @@ export const markAllAsRead = async (
       await Notification.bulkWrite(bulkOps);
     }
 
+    await publishUnreadCount(userId);
+
     successResponse(res, STATUS_CODES.OK, 'All notifications marked as read', null);
   } catch (err) {
     errorResponse(res, STATUS_CODES.INTERNAL_SERVER_ERROR, 'Error marking all notifications as read', err);
@@ -267,6 +302,7 @@ export const markAsRead = async (
         readAt: new Date()
       });
       await notification.save();
+      await publishUnreadCount(req.user!._id);
     }
 
     successResponse(res, STATUS_CODES.OK, 'Notification marked as read successfully', notification);
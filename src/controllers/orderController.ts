@@ -1,17 +1,33 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import Order from '../models/Order';
+import { Service } from '../models/Service';
 import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
 import { Types } from 'mongoose';
-import { IUser } from '../models/User';
+import { AuthUser, AuthPrincipal } from '../middleware/auth';
+import { canTransition } from '../services/transferStatus';
+import { priceOrderServices, transitionOrder } from '../services/orders';
+import { ListQueryOptions, parseListQuery, runListQuery } from '../utils/listQuery';
 
 // Extend Express Request type to include user
 declare module 'express' {
   interface Request {
-    user?: IUser;
+    user?: AuthUser;
+    principal?: AuthPrincipal;
   }
 }
 
+// Populated references are documents that carry the ID in _id
+const isPopulatedRef = (ref: unknown): ref is { _id: Types.ObjectId } =>
+  typeof ref === 'object' && ref !== null && !(ref instanceof Types.ObjectId) && '_id' in ref;
+
+const refId = (ref: unknown): string | undefined => {
+  if (isPopulatedRef(ref)) {
+    return ref._id.toString();
+  }
+  return ref ? String(ref) : undefined;
+};
+
 interface OrderFilters {
   status?: 'pending' | 'in_progress' | 'completed' | 'cancelled';
   paymentStatus?: 'pending' | 'paid' | 'failed' | 'refunded';
@@ -19,6 +35,7 @@ interface OrderFilters {
   order?: 'asc' | 'desc';
   page?: string;
   limit?: string;
+  cursor?: string;
   search?: string;
   scheduledDate?: {
     from: string;
@@ -26,6 +43,17 @@ interface OrderFilters {
   };
 }
 
+const ORDER_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['createdAt', 'updatedAt', 'scheduledDate', 'pickUpDate', 'totalAmount', 'status'],
+  filters: {
+    status: 'exact',
+    paymentStatus: 'exact',
+    workerId: 'exact',
+    scheduledDate: 'dateRange'
+  },
+  searchFields: ['items.name', 'services.name', 'from', 'to']
+};
+
 /**
  * @desc    Get all orders with advanced filtering (Admin only)
  * @route   GET /api/v1/orders
@@ -37,67 +65,13 @@ export const getOrders = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const {
-      status,
-      paymentStatus,
-      sortBy = 'createdAt',
-      order = 'desc',
-      page = '1',
-      limit = '10',
-      search,
-      scheduledDate
-    } = req.query;
-
-    // Build query
-    const query: Record<string, any> = {};
-
-    // Status filter
-    if (status) {
-      query.status = status;
-    }
-
-    // Payment status filter
-    if (paymentStatus) {
-      query.paymentStatus = paymentStatus;
-    }
-
-    // Date range filter
-    if (scheduledDate?.from && scheduledDate?.to) {
-      query.scheduledDate = {
-        $gte: new Date(scheduledDate.from),
-        $lte: new Date(scheduledDate.to)
-      };
-    }
-
-    // Search in items name or totalAmount
-    if (search) {
-      query.$or = [
-        { 'items.name': { $regex: search, $options: 'i' } },
-        { totalAmount: { $regex: search, $options: 'i' } }
-      ];
-    }
-
-    // Pagination
-    const pageNum = parseInt(page, 10);
-    const limitNum = parseInt(limit, 10);
-    const startIndex = (pageNum - 1) * limitNum;
-    const total = await Order.countDocuments(query);
-
-    const orders = await Order.find(query)
+    const list = parseListQuery(req.query, ORDER_LIST_OPTIONS);
+    const { data, pagination } = await runListQuery(Order, {}, list, query => query
       .populate('userId', 'name email')
       .populate('workerId', 'name email')
-      .populate('complaintId')
-      .sort({ [sortBy]: order === 'desc' ? -1 : 1 })
-      .skip(startIndex)
-      .limit(limitNum);
-
-    successResponse(res, STATUS_CODES.OK, 'Orders retrieved successfully', orders, {
-      pagination: {
-        total,
-        page: pageNum,
-        pages: Math.ceil(total / limitNum)
-      }
-    });
+      .populate('complaintId'));
+
+    successResponse(res, STATUS_CODES.OK, 'Orders retrieved successfully', data, { pagination });
   } catch (err) {
     next(err);
   }
@@ -116,7 +90,7 @@ export const getMyOrders = async (
   try {
     const orders = await Order.find({ userId: req.user!._id })
       .populate('workerId', 'name email')
-      .populate('serviceId', 'name price')
+      .populate('services.serviceId', 'name price')
       .sort('-createdAt');
 
     successResponse(res, STATUS_CODES.OK, 'Your orders retrieved successfully', orders);
@@ -139,15 +113,20 @@ export const getOrder = async (
     const order = await Order.findById(req.params.id)
       .populate('userId', 'name email')
       .populate('workerId', 'name email')
-      .populate('complaintId');
+      .populate('complaintId')
+      .populate('services.serviceId', 'name price');
 
     if (!order) {
       errorResponse(res, STATUS_CODES.NOT_FOUND, 'Order not found');
       return;
     }
 
-    // Check if user is admin or the order belongs to the user
-    if (req.user?.role !== 'admin' && order.userId.toString() !== req.user?._id.toString()) {
+    // Admins, the owning customer and the assigned worker can see an order
+    const requesterId = req.user?._id.toString();
+    const ownerId = refId(order.userId);
+    const workerId = refId(order.workerId);
+    const isAssignedWorker = req.principal === 'worker' && workerId === requesterId;
+    if (req.user?.role !== 'admin' && ownerId !== requesterId && !isAssignedWorker) {
       errorResponse(res, STATUS_CODES.FORBIDDEN, 'Not authorized to access this order');
       return;
     }
@@ -175,10 +154,28 @@ export const createOrder = async (
       return;
     }
 
-    // Add user to req.body
-    req.body.userId = req.user!._id;
+    // Status, payment, assignment and price are always set server-side
+    const {
+      status,
+      statusHistory,
+      paymentStatus,
+      workerId,
+      totalAmount,
+      completedAt,
+      cancelledAt,
+      rating,
+      services,
+      ...orderData
+    } = req.body;
+
+    const priced = await priceOrderServices(services);
 
-    const order = await Order.create(req.body);
+    const order = await Order.create({
+      ...orderData,
+      userId: req.user!._id,
+      services: priced.services,
+      totalAmount: priced.totalAmount
+    });
     successResponse(res, STATUS_CODES.CREATED, 'Order created successfully', order);
   } catch (err) {
     next(err);
@@ -196,44 +193,124 @@ export const updateOrder = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-  // If status is being changed to completed, add completedAt
-    if (req.body.status === 'completed') {
-      req.body.completedAt = new Date();
-    }
-
-    // If status is being changed to cancelled, add cancelledAt
-    if (req.body.status === 'cancelled') {
-      req.body.cancelledAt = new Date();
-    }
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
       return;
     }
 
-    const order = await Order.findByIdAndUpdate(
-      req.params.id,
-      req.body,
-      {
-        new: true,
-        runValidators: true
-      }
-    )
-      .populate('userId', 'name email')
-      .populate('workerId', 'name email')
-      .populate('complaintId');
+    // Status changes go through the order state machine; payment status, price
+    // and rating are never edited directly
+    const {
+      status,
+      statusReason,
+      statusHistory,
+      completedAt,
+      cancelledAt,
+      paymentStatus,
+      totalAmount,
+      rating,
+      services,
+      ...updateData
+    } = req.body;
+
+    let order = await Order.findById(req.params.id);
 
     if (!order) {
       errorResponse(res, STATUS_CODES.NOT_FOUND, 'Order not found');
       return;
     }
 
+    // Reject an illegal status change before touching any other field
+    if (status && status !== order.status && !canTransition(order.status, status)) {
+      errorResponse(res, STATUS_CODES.CONFLICT, `Cannot change order status from ${order.status} to ${status}`);
+      return;
+    }
+
+    // Changing the booked services reprices the order
+    if (services) {
+      if (order.paymentStatus !== 'pending') {
+        errorResponse(res, STATUS_CODES.CONFLICT, 'Services cannot be changed after payment');
+        return;
+      }
+      const priced = await priceOrderServices(services);
+      updateData.services = priced.services;
+      updateData.totalAmount = priced.totalAmount;
+    }
+
+    if (status && status !== order.status) {
+      // The field edits are saved in the same update as the status change, so
+      // a rejected or lost transition leaves the order untouched
+      order = await transitionOrder(
+        order._id,
+        status,
+        { id: req.user!._id, role: req.user!.role, principal: req.principal },
+        statusReason,
+        { set: updateData }
+      );
+    } else {
+      order = await Order.findByIdAndUpdate(
+        req.params.id,
+        updateData,
+        {
+          new: true,
+          runValidators: true
+        }
+      );
+
+      if (!order) {
+        errorResponse(res, STATUS_CODES.NOT_FOUND, 'Order not found');
+        return;
+      }
+    }
+
+    order = await Order.findById(order._id)
+      .populate('userId', 'name email')
+      .populate('workerId', 'name email')
+      .populate('complaintId')
+      .populate('services.serviceId', 'name price');
+
     successResponse(res, STATUS_CODES.OK, 'Order updated successfully', order);
   } catch (err) {
     next(err);
   }
 };
 
+/**
+ * @desc    Update the status of an order assigned to the logged-in worker
+ * @route   PUT /api/v1/orders/:id/status
+ * @access  Private/Worker
+ */
+export const updateMyOrderStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    if (req.principal !== 'worker') {
+      errorResponse(res, STATUS_CODES.FORBIDDEN, 'Only workers can use this route');
+      return;
+    }
+
+    const order = await transitionOrder(
+      req.params.id,
+      req.body.status,
+      { id: req.user!._id, role: req.user!.role, principal: req.principal },
+      req.body.reason
+    );
+
+    successResponse(res, STATUS_CODES.OK, 'Order status updated successfully', order);
+  } catch (err) {
+    next(err);
+  }
+};
+
 /**
  * @desc    Delete order (Admin only)
  * @route   DELETE /api/v1/orders/:id
@@ -367,7 +444,23 @@ export const addSampleOrders = async (
       }
     ];
 
-    const createdOrders = await Order.insertMany(sampleOrders);
+    const service = await Service.findOne({ isArchived: false });
+    if (!service) {
+      errorResponse(res, STATUS_CODES.BAD_REQUEST, 'Create at least one service before adding sample orders');
+      return;
+    }
+
+    const createdOrders = await Order.insertMany(
+      sampleOrders.map(order => ({
+        ...order,
+        services: [{ serviceId: service._id, name: service.name, price: service.price, quantity: 1 }],
+        totalAmount: service.price,
+        from: 'Airport Terminal 1',
+        to: 'City Center Hotel',
+        pickUpDate: order.scheduledDate,
+        pickUpTime: '10:00'
+      }))
+    );
 
     successResponse(
       res,
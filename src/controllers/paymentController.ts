@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import Transfer from '../models/Transfer';
+import {
+  createPaymentIntent,
+  getTransferPayments as findTransferPayments,
+  handlePaymentWebhook,
+  refundTransfer as refundTransferPayment
+} from '../services/payments';
+import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
+
+/**
+ * @desc    Start a payment for a transfer
+ * @route   POST /api/v1/payments/transfers/:transferId/intent
+ * @access  Private
+ */
+export const createTransferPaymentIntent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const transfer = await Transfer.findById(req.params.transferId);
+
+    if (!transfer) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Transfer not found');
+      return;
+    }
+
+    // Check if user is admin or the transfer belongs to the user
+    if (req.user?.role !== 'admin' && transfer.userId?.toString() !== req.user?._id.toString()) {
+      errorResponse(res, STATUS_CODES.FORBIDDEN, 'Not authorized to pay for this transfer');
+      return;
+    }
+
+    const intent = await createPaymentIntent(transfer._id, req.user!._id);
+    successResponse(res, STATUS_CODES.CREATED, 'Payment intent created successfully', intent);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Get the payment ledger of a transfer
+ * @route   GET /api/v1/payments/transfers/:transferId
+ * @access  Private
+ */
+export const getTransferPayments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const transfer = await Transfer.findById(req.params.transferId);
+
+    if (!transfer) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Transfer not found');
+      return;
+    }
+
+    // Check if user is admin or the transfer belongs to the user
+    if (req.user?.role !== 'admin' && transfer.userId?.toString() !== req.user?._id.toString()) {
+      errorResponse(res, STATUS_CODES.FORBIDDEN, 'Not authorized to access this transfer');
+      return;
+    }
+
+    const payments = await findTransferPayments(transfer._id);
+    successResponse(res, STATUS_CODES.OK, 'Payments retrieved successfully', payments, {
+      paymentStatus: transfer.paymentStatus
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Refund a paid transfer (Admin only)
+ * @route   POST /api/v1/payments/transfers/:transferId/refund
+ * @access  Private/Admin
+ */
+export const refundTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const payment = await refundTransferPayment(req.params.transferId, {
+      amount: req.body.amount,
+      reason: req.body.reason,
+      actorId: req.user!._id
+    });
+    successResponse(res, STATUS_CODES.CREATED, 'Refund issued successfully', payment);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Payment provider callback
+ * @route   POST /api/v1/payments/webhooks/:provider
+ * @access  Public (provider signature)
+ */
+export const paymentWebhook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const payment = await handlePaymentWebhook(req.params.provider, req.headers, req.rawBody, req.body);
+    successResponse(res, STATUS_CODES.OK, 'Webhook processed successfully', payment);
+  } catch (err) {
+    next(err);
+  }
+};
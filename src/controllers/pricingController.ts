@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import PricingConfig from '../models/PricingConfig';
+import { getPricingConfig } from '../services/pricing';
+import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
+
+/**
+ * @desc    Get pricing rate tables
+ * @route   GET /api/v1/pricing
+ * @access  Private/Admin
+ */
+export const getPricing = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const config = await getPricingConfig();
+    successResponse(res, STATUS_CODES.OK, 'Pricing retrieved successfully', config);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Update pricing rate tables
+ * @route   PUT /api/v1/pricing
+ * @access  Private/Admin
+ */
+export const updatePricing = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const current = await getPricingConfig();
+    const { _id, createdAt, updatedAt, ...updateData } = req.body;
+
+    const config = await PricingConfig.findByIdAndUpdate(
+      current._id,
+      { ...updateData, updatedBy: req.user!._id },
+      {
+        new: true,
+        runValidators: true
+      }
+    );
+
+    successResponse(res, STATUS_CODES.OK, 'Pricing updated successfully', config);
+  } catch (err) {
+    next(err);
+  }
+};
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
+import { searchAll, SEARCH_TYPES, SearchType } from '../services/search';
+
+interface SearchFilters {
+  q?: string;
+  types?: string;
+  limit?: string;
+}
+
+/**
+ * @desc    Search users, workers, transfers and complaints (Admin only)
+ * @route   GET /api/v1/search
+ * @access  Private/Admin
+ */
+export const search = async (
+  req: Request<{}, {}, {}, SearchFilters>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const { q = '', types, limit = '20' } = req.query;
+    const selectedTypes = types
+      ? (types.split(',').map(type => type.trim()).filter(type => SEARCH_TYPES.includes(type as SearchType)) as SearchType[])
+      : SEARCH_TYPES;
+
+    const hits = await searchAll(q, selectedTypes, parseInt(limit, 10));
+
+    successResponse(res, STATUS_CODES.OK, 'Search completed successfully', hits, { count: hits.length });
+  } catch (err) {
+    next(err);
+  }
+};
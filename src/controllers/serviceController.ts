@@ -0,0 +1,228 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Service } from '../models/Service';
+import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
+import { ListQueryOptions, parseListQuery, runListQuery } from '../utils/listQuery';
+
+interface ServiceFilters {
+  sortBy?: string;
+  order?: 'asc' | 'desc';
+  page?: string;
+  limit?: string;
+  cursor?: string;
+  search?: string;
+  minPrice?: string;
+  maxPrice?: string;
+}
+
+const SERVICE_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['name', 'price', 'duration', 'createdAt'],
+  defaultSort: 'name',
+  defaultOrder: 'asc',
+  searchFields: ['name', 'description']
+};
+
+// List services matching the catalog filters, either active or archived ones
+const listServices = async (
+  req: Request<{}, {}, {}, ServiceFilters>,
+  res: Response,
+  archived: boolean
+): Promise<void> => {
+  const { minPrice, maxPrice } = req.query;
+  const baseFilter: Record<string, any> = { isArchived: archived };
+
+  // Price range filter
+  if (minPrice || maxPrice) {
+    baseFilter.price = {
+      ...(minPrice && { $gte: parseFloat(minPrice) }),
+      ...(maxPrice && { $lte: parseFloat(maxPrice) })
+    };
+  }
+
+  const list = parseListQuery(req.query, SERVICE_LIST_OPTIONS);
+  const { data, pagination } = await runListQuery(Service, baseFilter, list);
+
+  successResponse(res, STATUS_CODES.OK, 'Services retrieved successfully', data, { pagination });
+};
+
+/**
+ * @desc    Get active services with pagination and search
+ * @route   GET /api/v1/services
+ * @access  Public
+ */
+export const getServices = async (
+  req: Request<{}, {}, {}, ServiceFilters>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await listServices(req, res, false);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Get archived services (Admin only)
+ * @route   GET /api/v1/services/archived
+ * @access  Private/Admin
+ */
+export const getArchivedServices = async (
+  req: Request<{}, {}, {}, ServiceFilters>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await listServices(req, res, true);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Get single service (archived services stay readable for past orders)
+ * @route   GET /api/v1/services/:id
+ * @access  Public
+ */
+export const getService = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const service = await Service.findById(req.params.id);
+
+    if (!service) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Service not found');
+      return;
+    }
+
+    successResponse(res, STATUS_CODES.OK, 'Service retrieved successfully', service);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Create service (Admin only)
+ * @route   POST /api/v1/services
+ * @access  Private/Admin
+ */
+export const createService = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const { name, description, price, duration } = req.body;
+    const service = await Service.create({ name, description, price, duration });
+
+    successResponse(res, STATUS_CODES.CREATED, 'Service created successfully', service);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Update service (Admin only). Existing orders keep the price they were booked at.
+ * @route   PUT /api/v1/services/:id
+ * @access  Private/Admin
+ */
+export const updateService = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const { name, description, price, duration } = req.body;
+
+    const service = await Service.findByIdAndUpdate(
+      req.params.id,
+      { name, description, price, duration },
+      {
+        new: true,
+        runValidators: true
+      }
+    );
+
+    if (!service) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Service not found');
+      return;
+    }
+
+    successResponse(res, STATUS_CODES.OK, 'Service updated successfully', service);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Archive service (Admin only). The service is hidden, not deleted.
+ * @route   DELETE /api/v1/services/:id
+ * @access  Private/Admin
+ */
+export const archiveService = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const service = await Service.findById(req.params.id);
+
+    if (!service) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Service not found');
+      return;
+    }
+
+    if (!service.isArchived) {
+      service.isArchived = true;
+      service.archivedAt = new Date();
+      service.archivedBy = req.user!._id;
+      await service.save();
+    }
+
+    successResponse(res, STATUS_CODES.OK, 'Service archived successfully', service);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Restore an archived service (Admin only)
+ * @route   PUT /api/v1/services/:id/restore
+ * @access  Private/Admin
+ */
+export const restoreService = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const service = await Service.findByIdAndUpdate(
+      req.params.id,
+      { isArchived: false, $unset: { archivedAt: 1, archivedBy: 1 } },
+      { new: true }
+    );
+
+    if (!service) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Service not found');
+      return;
+    }
+
+    successResponse(res, STATUS_CODES.OK, 'Service restored successfully', service);
+  } catch (err) {
+    next(err);
+  }
+};
@@ -3,12 +3,24 @@ import { validationResult } from 'express-validator';
 import Transfer from '../models/Transfer';
 import { successResponse, errorResponse, STATUS_CODES } from '../utils/responseHandler';
 import { Types } from 'mongoose';
-import { IUser } from '../models/User';
+import { AuthUser, AuthPrincipal } from '../middleware/auth';
+import { canTransition, transitionTransfer } from '../services/transferStatus';
+import { assignTransfer as assignTransferToWorker } from '../services/dispatch';
+import { quoteTransfer } from '../services/pricing';
+import { ListQueryOptions, parseListQuery, runListQuery } from '../utils/listQuery';
+import { rateTransfer as rateCompletedTransfer } from '../services/transferRating';
+import { checkFlightDelays } from '../services/flightDelays';
+import { getTransferTrail as getTrail } from '../services/tracking';
+import { getAccessibleTransfer } from '../services/transferAccess';
+import { publish } from '../services/events';
+import { zonedTimeToUtc } from '../utils/timezone';
+import { listDeleted, restoreDeleted, softDelete } from '../services/trash';
 
 // Extend Express Request type to include user
 declare module 'express' {
   interface Request {
-    user?: IUser;
+    user?: AuthUser;
+    principal?: AuthPrincipal;
   }
 }
 
@@ -19,6 +31,7 @@ interface TransferFilters {
   order?: 'asc' | 'desc';
   page?: string;
   limit?: string;
+  cursor?: string;
   search?: string;
   scheduledDate?: {
     from: string;
@@ -26,6 +39,17 @@ interface TransferFilters {
   };
 }
 
+const TRANSFER_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['createdAt', 'updatedAt', 'scheduledDate', 'pickUpDate', 'totalAmount', 'status'],
+  filters: {
+    status: 'exact',
+    paymentStatus: 'exact',
+    workerId: 'exact',
+    scheduledDate: 'dateRange'
+  },
+  searchFields: ['items.name', 'from', 'to']
+};
+
 /**
  * @desc    Get all transfers with advanced filtering (Admin only)
  * @route   GET /api/v1/transfers
@@ -37,67 +61,13 @@ export const getTransfers = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const {
-      status,
-      paymentStatus,
-      sortBy = 'createdAt',
-      order = 'desc',
-      page = '1',
-      limit = '10',
-      search,
-      scheduledDate
-    } = req.query;
-
-    // Build query
-    const query: Record<string, any> = {};
-
-    // Status filter
-    if (status) {
-      query.status = status;
-    }
-
-    // Payment status filter
-    if (paymentStatus) {
-      query.paymentStatus = paymentStatus;
-    }
-
-    // Date range filter
-    if (scheduledDate?.from && scheduledDate?.to) {
-      query.scheduledDate = {
-        $gte: new Date(scheduledDate.from),
-        $lte: new Date(scheduledDate.to)
-      };
-    }
-
-    // Search in items name or totalAmount
-    if (search) {
-      query.$or = [
-        { 'items.name': { $regex: search, $options: 'i' } },
-        { totalAmount: { $regex: search, $options: 'i' } }
-      ];
-    }
-
-    // Pagination
-    const pageNum = parseInt(page, 10);
-    const limitNum = parseInt(limit, 10);
-    const startIndex = (pageNum - 1) * limitNum;
-    const total = await Transfer.countDocuments(query);
-
-    const transfers = await Transfer.find(query)
+    const list = parseListQuery(req.query, TRANSFER_LIST_OPTIONS);
+    const { data, pagination } = await runListQuery(Transfer, {}, list, query => query
       .populate('userId', 'name email')
       .populate('workerId', 'name email')
-      .populate('complaintId')
-      .sort({ [sortBy]: order === 'desc' ? -1 : 1 })
-      .skip(startIndex)
-      .limit(limitNum);
-
-    successResponse(res, STATUS_CODES.OK, 'Transfers retrieved successfully', transfers, {
-      pagination: {
-        total,
-        page: pageNum,
-        pages: Math.ceil(total / limitNum)
-      }
-    });
+      .populate('complaintId'));
+
+    successResponse(res, STATUS_CODES.OK, 'Transfers retrieved successfully', data, { pagination });
   } catch (err) {
     next(err);
   }
@@ -129,7 +99,7 @@ export const getMyTransfers = async (
 /**
  * @desc    Get single transfer
  * @route   GET /api/v1/transfers/:id
- * @access  Private
+ * @access  Private (admin, the customer or the assigned worker)
  */
 export const getTransfer = async (
   req: Request,
@@ -137,21 +107,18 @@ export const getTransfer = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const transfer = await Transfer.findById(req.params.id)
-      .populate('userId', 'name email')
-      .populate('workerId', 'name email')
-      .populate('complaintId');
-
-    if (!transfer) {
-      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Transfer not found');
-      return;
-    }
+    // Same access rule as the live tracking room
+    const transfer = await getAccessibleTransfer(req.params.id, {
+      id: req.user!._id,
+      role: req.user!.role,
+      principal: req.principal
+    });
 
-    // Check if user is admin or the transfer belongs to the user
-    if (req.user?.role !== 'admin' && transfer.userId.toString() !== req.user?._id.toString()) {
-      errorResponse(res, STATUS_CODES.FORBIDDEN, 'Not authorized to access this transfer');
-      return;
-    }
+    await transfer.populate([
+      { path: 'userId', select: 'name email' },
+      { path: 'workerId', select: 'name email' },
+      { path: 'complaintId' }
+    ]);
 
     successResponse(res, STATUS_CODES.OK, 'Transfer retrieved successfully', transfer);
   } catch (err) {
@@ -193,16 +160,64 @@ export const createTransfer = async (
       );
     }
 
-    // Add userId to the payload
-    req.body.userId = req.user!._id;
-
-    const transfer = await Transfer.create(req.body);
+    // Status, payment, assignment, rating, flight tracking and price are always set server-side
+    const {
+      userId,
+      workerId,
+      assignedAt,
+      complaintId,
+      status,
+      statusHistory,
+      paymentStatus,
+      totalAmount,
+      pickUpAt,
+      flightStatus,
+      completedAt,
+      cancelledAt,
+      rating,
+      deletedAt,
+      deletedBy,
+      anonymisedAt,
+      ...transferData
+    } = req.body;
+
+    const quote = await quoteTransfer(transferData);
+
+    const transfer = await Transfer.create({
+      ...transferData,
+      userId: req.user!._id,
+      totalAmount: quote.totalAmount
+    });
     successResponse(res, STATUS_CODES.CREATED, 'Transfer created successfully', transfer);
   } catch (err) {
     next(err);
   }
 };
 
+/**
+ * @desc    Get an itemised price quote for a transfer before booking
+ * @route   POST /api/v1/transfers/quote
+ * @access  Private
+ */
+export const getTransferQuote = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const quote = await quoteTransfer(req.body);
+    successResponse(res, STATUS_CODES.OK, 'Quote calculated successfully', quote);
+  } catch (err) {
+    next(err);
+  }
+};
+
 /**
  * @desc    Update transfer (Admin only)
  * @route   PUT /api/v1/transfers/:id
@@ -214,46 +229,209 @@ export const updateTransfer = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-  // If status is being changed to completed, add completedAt
-    if (req.body.status === 'completed') {
-      req.body.completedAt = new Date();
-    }
-
-    // If status is being changed to cancelled, add cancelledAt
-    if (req.body.status === 'cancelled') {
-      req.body.cancelledAt = new Date();
-    }
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
       return;
     }
 
-    const transfer = await Transfer.findByIdAndUpdate(
-      req.params.id,
-      req.body,
-      {
-        new: true,
-        runValidators: true
+    // Status changes go through the transfer state machine, payment status
+    // only moves through the payments service, ratings come from the customer and
+    // the pickup instant and flight status are derived on the server
+    const {
+      status, statusReason, statusHistory, completedAt, cancelledAt, paymentStatus, rating,
+      pickUpAt, flightStatus, ...updateData
+    } = req.body;
+
+    let transfer = await Transfer.findById(req.params.id);
+
+    if (!transfer) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Transfer not found');
+      return;
+    }
+
+    // Reject an illegal status change before touching any other field
+    if (status && status !== transfer.status && !canTransition(transfer.status, status)) {
+      errorResponse(res, STATUS_CODES.CONFLICT, `Cannot change transfer status from ${transfer.status} to ${status}`);
+      return;
+    }
+
+    const unset: string[] = [];
+
+    // findByIdAndUpdate skips the save hooks, so keep pickUpAt in step here
+    if (updateData.pickUpDate || updateData.pickUpTime || updateData.pickUpTimezone) {
+      updateData.pickUpAt = zonedTimeToUtc(
+        new Date(updateData.pickUpDate ?? transfer.pickUpDate),
+        updateData.pickUpTime ?? transfer.pickUpTime,
+        updateData.pickUpTimezone ?? transfer.pickUpTimezone
+      );
+      // A manual reschedule becomes the new baseline for delay tracking
+      unset.push('flightStatus');
+    }
+
+    const edited = Object.keys(updateData).length > 0;
+
+    if (status && status !== transfer.status) {
+      // The field edits are saved in the same update as the status change, so
+      // a rejected or lost transition leaves the transfer untouched
+      transfer = await transitionTransfer(
+        transfer._id,
+        status,
+        { id: req.user!._id, role: req.user!.role, principal: req.principal },
+        statusReason,
+        { set: updateData, unset }
+      );
+    } else {
+      transfer = await Transfer.findByIdAndUpdate(
+        req.params.id,
+        unset.length > 0
+          ? { ...updateData, $unset: Object.fromEntries(unset.map(field => [field, 1])) }
+          : updateData,
+        {
+          new: true,
+          runValidators: true
+        }
+      );
+
+      if (!transfer) {
+        errorResponse(res, STATUS_CODES.NOT_FOUND, 'Transfer not found');
+        return;
       }
-    )
+    }
+
+    if (edited) {
+      publish('transfer.updated', { transfer, change: 'edited', actorId: req.user!._id.toString() });
+    }
+
+    transfer = await Transfer.findById(transfer._id)
       .populate('userId', 'name email')
       .populate('workerId', 'name email')
       .populate('complaintId');
 
-    if (!transfer) {
-      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Transfer not found');
+    successResponse(res, STATUS_CODES.OK, 'Transfer updated successfully', transfer);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Get the GPS breadcrumb trail of a completed transfer
+ * @route   GET /api/v1/transfers/:id/trail
+ * @access  Private (admin, the customer or the assigned worker)
+ */
+export const getTransferTrail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const transfer = await getAccessibleTransfer(req.params.id, {
+      id: req.user!._id,
+      role: req.user!.role,
+      principal: req.principal
+    });
+
+    if (transfer.status !== 'completed') {
+      errorResponse(res, STATUS_CODES.CONFLICT, 'The trail is only available once the transfer is completed');
       return;
     }
 
-    successResponse(res, STATUS_CODES.OK, 'Transfer updated successfully', transfer);
+    const trail = await getTrail(transfer._id);
+    successResponse(res, STATUS_CODES.OK, 'Transfer trail retrieved successfully', {
+      transferId: transfer._id,
+      workerId: transfer.workerId,
+      completedAt: transfer.completedAt,
+      points: trail
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Check flight statuses now and reschedule delayed pickups (Admin only)
+ * @route   POST /api/v1/transfers/flight-status/check
+ * @access  Private/Admin
+ */
+export const checkTransferFlights = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const summary = await checkFlightDelays();
+    successResponse(res, STATUS_CODES.OK, 'Flight statuses checked successfully', summary);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Assign transfer to a worker, or auto-dispatch when no worker is given (Admin only)
+ * @route   POST /api/v1/transfers/:id/assign
+ * @access  Private/Admin
+ */
+export const assignTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    const { workerId, auto, region } = req.body;
+
+    if (!workerId && !auto) {
+      errorResponse(res, STATUS_CODES.BAD_REQUEST, 'Please provide a workerId or set auto to true');
+      return;
+    }
+
+    const transfer = await assignTransferToWorker(req.params.id, workerId, region);
+
+    successResponse(res, STATUS_CODES.OK, 'Transfer assigned successfully', transfer);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Rate a completed transfer (owning customer only, once)
+ * @route   POST /api/v1/transfers/:id/rating
+ * @access  Private
+ */
+export const rateTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, 'Validation error', errors.array());
+      return;
+    }
+
+    if (req.principal !== 'user' || req.user?.role !== 'customer') {
+      errorResponse(res, STATUS_CODES.FORBIDDEN, 'Only customers can rate transfers');
+      return;
+    }
+
+    const { rating, comment } = req.body;
+    const transfer = await rateCompletedTransfer(req.params.id, req.user._id, { rating, comment });
+
+    successResponse(res, STATUS_CODES.CREATED, 'Transfer rated successfully', transfer);
   } catch (err) {
     next(err);
   }
 };
 
 /**
- * @desc    Delete transfer (Admin only)
+ * @desc    Delete transfer (Admin only). The transfer is moved to the trash
+ *          and can be restored until the purge job removes it.
  * @route   DELETE /api/v1/transfers/:id
  * @access  Private/Admin
  */
@@ -263,19 +441,60 @@ export const deleteTransfer = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const transfer = await Transfer.findById(req.params.id);
+    const transfer = await softDelete(Transfer, req.params.id, req.user!._id);
 
     if (!transfer) {
       errorResponse(res, STATUS_CODES.NOT_FOUND, 'Transfer not found');
       return;
     }
-    await transfer.deleteOne();
     successResponse(res, STATUS_CODES.OK, 'Transfer deleted successfully', null);
   } catch (err) {
     next(err);
   }
 };
 
+/**
+ * @desc    Get deleted transfers (Admin only)
+ * @route   GET /api/v1/transfers/deleted
+ * @access  Private/Admin
+ */
+export const getDeletedTransfers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { data, pagination } = await listDeleted(Transfer, req.query);
+
+    successResponse(res, STATUS_CODES.OK, 'Deleted transfers retrieved successfully', data, { pagination });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Restore a deleted transfer (Admin only)
+ * @route   PUT /api/v1/transfers/:id/restore
+ * @access  Private/Admin
+ */
+export const restoreTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const transfer = await restoreDeleted(Transfer, req.params.id);
+
+    if (!transfer) {
+      errorResponse(res, STATUS_CODES.NOT_FOUND, 'Deleted transfer not found');
+      return;
+    }
+    successResponse(res, STATUS_CODES.OK, 'Transfer restored successfully', transfer);
+  } catch (err) {
+    next(err);
+  }
+};
+
 /**
  * @desc    Add 5 sample transfers
  * @route   POST /api/v1/transfers/add-samples
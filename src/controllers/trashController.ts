@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, STATUS_CODES } from '../utils/responseHandler';
+import { purgeDeletedDocuments } from '../services/trash';
+
+/**
+ * @desc    Purge records that stayed in the trash past the retention period (Admin only)
+ * @route   POST /api/v1/trash/purge
+ * @access  Private/Admin
+ */
+export const purgeTrash = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const summary = await purgeDeletedDocuments();
+    successResponse(res, STATUS_CODES.OK, 'Trash purged successfully', summary);
+  } catch (err) {
+    next(err);
+  }
+};
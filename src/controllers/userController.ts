@@ -3,6 +3,10 @@ import { validationResult } from 'express-validator';
 import { Document, ObjectId } from 'mongoose';
 import User, { IUser as UserModelInterface } from '../models/User';
 import ErrorResponse from '../utils/errorResponse';
+import { successResponse, STATUS_CODES } from '../utils/responseHandler';
+import { sendVerificationEmail } from '../services/accountTokens';
+import { revokeAllSessions } from '../services/tokens';
+import { assertEmailNotInTrash, listDeleted, restoreDeleted, softDelete } from '../services/trash';
 
 interface IUser extends Omit<UserModelInterface, '_id'> {}
 
@@ -91,7 +95,23 @@ export const createUser = async (
       return;
     }
     
-    const user = await User.create(req.body);
+    // Admins are only added through admin invites; verification, ratings and
+    // trash fields are set by the server
+    const {
+      emailVerified,
+      rating,
+      totalTransfers,
+      deletedAt,
+      deletedBy,
+      anonymisedAt,
+      ...userData
+    } = req.body;
+    if (userData.role === 'admin') {
+      return next(new ErrorResponse('Admins can only be added through an admin invite', 403));
+    }
+
+    await assertEmailNotInTrash(User, userData.email);
+    const user = await User.create(userData);
     
     // Remove sensitive data from response
     const userObj = user.toObject();
@@ -132,7 +152,14 @@ export const updateUser = async (
         new ErrorResponse(`User not found with id of ${req.params.id}`, 404)
       );
     }
+    // Writable fields per role are enforced by USER_WRITE_POLICY on the route
     const { password, ...updateData } = req.body;
+    // A new address has to be verified again
+    const emailChanged = updateData.email !== undefined && updateData.email !== user.email;
+    if (emailChanged) {
+      await assertEmailNotInTrash(User, updateData.email);
+      updateData.emailVerified = false;
+    }
     const updatedUser = await User.findByIdAndUpdate(
       req.params.id,
       updateData,
@@ -146,6 +173,9 @@ export const updateUser = async (
         new ErrorResponse(`User not found with id of ${req.params.id}`, 404)
       );
     }
+    if (emailChanged) {
+      await sendVerificationEmail(updatedUser);
+    }
     res.status(200).json({
       success: true,
       data: updatedUser
@@ -156,7 +186,8 @@ export const updateUser = async (
 };
 
 /**
- * @desc    Delete user
+ * @desc    Delete user. The account is moved to the trash and can be restored
+ *          until the purge job removes it.
  * @route   DELETE /api/v1/users/:id
  * @access  Private/Admin
  */
@@ -170,13 +201,13 @@ export const deleteUser = async (
     if (!req.user || (req.user.role !== 'admin' && req.user._id.toString() !== req.params.id)) {
       return next(new ErrorResponse('Not authorized to update this worker', 403));
     }
-    const user = await User.findById(req.params.id);
+    const user = await softDelete(User, req.params.id, req.user._id);
     if (!user) {
       return next(
         new ErrorResponse(`User not found with id of ${req.params.id}`, 404)
       );
     }
-    await user.deleteOne();
+    await revokeAllSessions(user._id, 'user', 'account_deleted');
     res.status(200).json({
       success: true,
       data: {}
@@ -184,4 +215,49 @@ export const deleteUser = async (
   } catch (err) {
     next(err);
   }
+};
+
+/**
+ * @desc    Get deleted users
+ * @route   GET /api/v1/users/deleted
+ * @access  Private/Admin
+ */
+export const getDeletedUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { data, pagination } = await listDeleted(User, req.query);
+
+    successResponse(res, STATUS_CODES.OK, 'Deleted users retrieved successfully', data, { pagination });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Restore a deleted user
+ * @route   PUT /api/v1/users/:id/restore
+ * @access  Private/Admin
+ */
+export const restoreUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await restoreDeleted(User, req.params.id);
+    if (!user) {
+      return next(
+        new ErrorResponse(`Deleted user not found with id of ${req.params.id}`, 404)
+      );
+    }
+    res.status(200).json({
+      success: true,
+      data: user
+    });
+  } catch (err) {
+    next(err);
+  }
 }; 
\ No newline at end of file
@@ -4,14 +4,23 @@ import { Document } from 'mongoose';
 import Workers from '../models/Worker';
 import ErrorResponse from '../utils/errorResponse';
 import Transfers from '../models/Transfer';
+import { transitionTransfer } from '../services/transferStatus';
+import { ListQueryOptions, parseListQuery, runListQuery } from '../utils/listQuery';
+import { successResponse, STATUS_CODES } from '../utils/responseHandler';
+import { revokeAllSessions } from '../services/tokens';
+import { assertEmailNotInTrash, listDeleted, restoreDeleted, softDelete } from '../services/trash';
 
-interface WorkerFilters {
-  name?: { $regex: string; $options: string };
-  identityNumber?: string;
-  phone?: { $regex: string; $options: string };
-  isAvailable?: boolean;
-  role?: string;
-}
+const WORKER_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['createdAt', 'name', 'rating', 'completedJobs', 'experience'],
+  filters: {
+    name: 'regex',
+    identityNumber: 'exact',
+    phone: 'regex',
+    isAvailable: 'boolean',
+    role: 'exact',
+    region: 'exact'
+  }
+};
 
 interface IWorker {
   name: string;
@@ -25,21 +34,6 @@ interface IWorker {
 
 interface WorkerDocument extends Document, IWorker {}
 
-interface PaginationResult {
-  next?: {
-    page: number;
-    limit: number;
-  };
-  prev?: {
-    page: number;
-    limit: number;
-  };
-  total: number;
-  page: number;
-  limit: number;
-  pageCount: number;
-}
-
 /**
  * @desc    Get all workers with filters, pagination and sorting
  * @route   GET /api/v1/workers
@@ -55,83 +49,10 @@ export const getWorkers = async (
     if (!req.user || req.user.role !== 'admin') {
       return next(new ErrorResponse('Not authorized to access this route', 403));
     }
-    // Extract query parameters
-    const { 
-      name, 
-      identityNumber, 
-      phone,
-      isAvailable,
-      role,
-      sortBy = 'createdAt',
-      order = 'desc',
-      page = 1,
-      limit = 10
-    } = req.query;
-
-    // Build query
-    const query: WorkerFilters = {};
-
-    // Add filters if they exist
-    if (name) {
-      query.name = { $regex: name as string, $options: 'i' }; // Case-insensitive search
-    }
-    if (identityNumber) {
-      query.identityNumber = identityNumber as string;
-    }
-    if (phone) {
-      query.phone = { $regex: phone as string, $options: 'i' }; // Case-insensitive search
-    }
-    if (isAvailable !== undefined) {
-      query.isAvailable = (isAvailable as string) === 'true';
-    }
-    if (role) {
-      query.role = role as string;
-    }
+    const list = parseListQuery(req.query, WORKER_LIST_OPTIONS);
+    const { data, pagination } = await runListQuery(Workers, {}, list, query => query.select('-password'));
 
-    // Pagination
-    const pageNum = parseInt(page as string, 10);
-    const limitNum = parseInt(limit as string, 10);
-    const startIndex = (pageNum - 1) * limitNum;
-    const endIndex = pageNum * limitNum;
-    const total = await Workers.countDocuments(query);
-
-    // Pagination result
-    const pagination: PaginationResult = {
-      total,
-      page: pageNum,
-      limit: limitNum,
-      pageCount: Math.ceil(total / limitNum)
-    };
-
-    // Add next page if available
-    if (endIndex < total) {
-      pagination.next = {
-        page: pageNum + 1,
-        limit: limitNum
-      };
-    }
-
-    // Add previous page if available
-    if (startIndex > 0) {
-      pagination.prev = {
-        page: pageNum - 1,
-        limit: limitNum
-      };
-    }
-
-    // Execute query with pagination and sorting
-    const workers = await Workers.find(query)
-      .sort({ [sortBy as string]: order === 'desc' ? -1 : 1 })
-      .skip(startIndex)
-      .limit(limitNum)
-      .select('-password');
-    
-    res.status(200).json({
-      success: true,
-      count: workers.length,
-      pagination,
-      data: workers
-    });
+    successResponse(res, STATUS_CODES.OK, 'Workers retrieved successfully', data, { pagination });
   } catch (err) {
     next(err);
   }
@@ -191,6 +112,7 @@ export const createWorker = async (
       return;
     }
     
+    await assertEmailNotInTrash(Workers, req.body.email);
     const worker = await Workers.create(req.body);
     
     res.status(201).json({
@@ -231,6 +153,9 @@ export const updateWorker = async (
     if (req.body.password) {
       delete req.body.password;
     }
+    if (req.body.email !== undefined && req.body.email !== worker.email) {
+      await assertEmailNotInTrash(Workers, req.body.email);
+    }
     worker = await Workers.findByIdAndUpdate(req.params.id, req.body, {
       new: true,
       runValidators: true
@@ -245,7 +170,8 @@ export const updateWorker = async (
 };
 
 /**
- * @desc    Delete worker
+ * @desc    Delete worker. The account is moved to the trash and can be restored
+ *          until the purge job removes it.
  * @route   DELETE /api/v1/workers/:id
  * @access  Private/Admin
  */
@@ -259,13 +185,13 @@ export const deleteWorker = async (
     if (!req.user || (req.user.role !== 'admin' && req.user._id.toString() !== req.params.id)) {
       return next(new ErrorResponse('Not authorized to delete this worker', 403));
     }
-    const worker = await Workers.findById(req.params.id) as WorkerDocument;
+    const worker = await softDelete(Workers, req.params.id, req.user._id);
     if (!worker) {
       return next(
         new ErrorResponse(`Worker not found with id of ${req.params.id}`, 404)
       );
     }
-    await worker.deleteOne();
+    await revokeAllSessions(worker._id, 'worker', 'account_deleted');
     res.status(200).json({
       success: true,
       data: {}
@@ -275,6 +201,51 @@ export const deleteWorker = async (
   }
 };
 
+/**
+ * @desc    Get deleted workers
+ * @route   GET /api/v1/workers/deleted
+ * @access  Private/Admin
+ */
+export const getDeletedWorkers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { data, pagination } = await listDeleted(Workers, req.query);
+
+    successResponse(res, STATUS_CODES.OK, 'Deleted workers retrieved successfully', data, { pagination });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Restore a deleted worker
+ * @route   PUT /api/v1/workers/:id/restore
+ * @access  Private/Admin
+ */
+export const restoreWorker = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const worker = await restoreDeleted(Workers, req.params.id);
+    if (!worker) {
+      return next(
+        new ErrorResponse(`Deleted worker not found with id of ${req.params.id}`, 404)
+      );
+    }
+    res.status(200).json({
+      success: true,
+      data: worker
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
 /**
  * @desc    Get workers statistics (total, with transfers, available)
  * @route   GET /api/v1/workers/stats
@@ -309,4 +280,74 @@ export const getWorkersStats = async (
   } catch (err) {
     next(err)
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * @desc    Get transfers assigned to the logged in worker
+ * @route   GET /api/v1/workers/me/transfers
+ * @access  Private/Worker
+ */
+export const getMyAssignedTransfers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user || req.principal !== 'worker') {
+      return next(new ErrorResponse('Only workers can access this route', 403));
+    }
+
+    const query: Record<string, unknown> = { workerId: req.user._id };
+    if (req.query.status) {
+      query.status = req.query.status as string;
+    }
+
+    const transfers = await Transfers.find(query)
+      .populate('userId', 'name email phone')
+      .sort('pickUpDate');
+
+    res.status(200).json({
+      success: true,
+      count: transfers.length,
+      data: transfers
+    });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * @desc    Update status of a transfer assigned to the logged in worker
+ * @route   PUT /api/v1/workers/me/transfers/:id/status
+ * @access  Private/Worker
+ */
+export const updateMyTransferStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user || req.principal !== 'worker') {
+      return next(new ErrorResponse('Only workers can access this route', 403));
+    }
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const transfer = await transitionTransfer(
+      req.params.id,
+      req.body.status,
+      { id: req.user._id, role: req.user.role, principal: 'worker' },
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      data: transfer
+    });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -1,7 +1,7 @@
-import app from './server';
+import app, { startBackgroundJobs } from './server';
 import { connectDB } from './config/db';
 
-// Connect to database before handling any requests
-connectDB().catch(console.error);
+// Connect to database before handling any requests, then start the background jobs
+connectDB().then(startBackgroundJobs).catch(console.error);
 
 export default app; 
\ No newline at end of file
@@ -1,12 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import User, { IUser } from '../models/User';
+import Worker, { IWorker } from '../models/Worker';
 import ErrorResponse from '../utils/errorResponse';
+import { verifyAccessToken } from '../services/tokens';
+
+// Authenticated principal: a User account or a Worker account
+export type AuthPrincipal = 'user' | 'worker';
+export type AuthUser = IUser | IWorker;
+
+// Load the account behind a token
+export const loadAuthUser = (id: string, principal: AuthPrincipal): Promise<AuthUser | null> =>
+  principal === 'worker' ? Worker.findById(id) : User.findById(id);
 
 // Extend Express Request type
 declare module 'express' {
   interface Request {
-    user?: IUser;
+    user?: AuthUser;
+    principal?: AuthPrincipal;
   }
 }
 
@@ -36,14 +46,12 @@ export const protect = async (
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET ?? '') as jwt.JwtPayload;
-    const user = await User.findById(decoded.id);
-
-    if (!user) {
-      return next(new ErrorResponse('User not found', 404));
-    }
+    // Rejects refresh tokens, tokens of revoked sessions and tokens of deleted accounts
+    const { payload, user } = await verifyAccessToken(token, loadAuthUser);
 
     req.user = user;
+    req.principal = payload.principal;
+    req.sessionId = payload.sid;
     next();
   } catch (err) {
     return next(new ErrorResponse('Not authorized to access this route', 401));
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { errorResponse, STATUS_CODES } from '../utils/responseHandler';
+
+// Fields each role may write, keyed by role. Worker accounts use the 'worker' key.
+export type FieldPolicy = Partial<Record<'admin' | 'customer' | 'worker', string[]>>;
+
+const getPolicyRole = (req: Request): keyof FieldPolicy | undefined => {
+  if (!req.user) return undefined;
+  return req.principal === 'worker' ? 'worker' : req.user.role as keyof FieldPolicy;
+};
+
+/**
+ * Reject request bodies with fields the caller's role may not write.
+ * Fields no role may write are answered with 422, fields reserved for other
+ * roles with 403; both list the offending fields.
+ */
+export const allowFields = (policy: FieldPolicy) => {
+  const knownFields = new Set(Object.values(policy).flat());
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.method === 'OPTIONS') {
+      return next();
+    }
+
+    const role = getPolicyRole(req);
+    const allowed = role ? policy[role] : undefined;
+    if (!allowed) {
+      errorResponse(res, STATUS_CODES.FORBIDDEN, `Role ${req.user?.role ?? 'UNKNOWN'} cannot update this resource`);
+      return;
+    }
+
+    const fields = Object.keys(req.body ?? {});
+    const unknown = fields.filter(field => !knownFields.has(field));
+    if (unknown.length > 0) {
+      errorResponse(res, STATUS_CODES.VALIDATION_ERROR, `These fields cannot be updated: ${unknown.join(', ')}`, { fields: unknown });
+      return;
+    }
+
+    const forbidden = fields.filter(field => !allowed.includes(field));
+    if (forbidden.length > 0) {
+      errorResponse(res, STATUS_CODES.FORBIDDEN, `Not authorized to update these fields: ${forbidden.join(', ')}`, { fields: forbidden });
+      return;
+    }
+
+    next();
+  };
+};
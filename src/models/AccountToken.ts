@@ -0,0 +1,52 @@
+import mongoose, { Types } from 'mongoose';
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+export interface IAccountToken {
+  userId: Types.ObjectId;
+  purpose: AccountTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountTokenSchema = new mongoose.Schema<IAccountToken>(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'User ID is required'],
+      ref: 'User'
+    },
+    purpose: {
+      type: String,
+      enum: ['password_reset', 'email_verification'],
+      required: [true, 'Token purpose is required']
+    },
+    // Only a SHA-256 hash of the token is stored
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    usedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Add indexes for better query performance
+AccountTokenSchema.index({ userId: 1, purpose: 1 });
+// Expired tokens are removed by MongoDB
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AccountToken = mongoose.model<IAccountToken>('AccountToken', AccountTokenSchema);
+export default AccountToken;
@@ -1,9 +1,11 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Schema } from 'mongoose';
 
-export interface IAd extends Document {
+export interface IAd {
   url?: string;
   image?: string;
   expireDate: Date;
+  // Ads are switched to deactive once they expire
+  status: 'active' | 'deactive';
   createdByAdminId: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -23,6 +25,11 @@ const AdSchema = new Schema<IAd>(
       type: Date,
       required: [true, 'Expire date is required'],
     },
+    status: {
+      type: String,
+      enum: ['active', 'deactive'],
+      default: 'active',
+    },
     createdByAdminId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -0,0 +1,57 @@
+import mongoose, { Types } from 'mongoose';
+
+export interface IAdminInvite {
+  _id: Types.ObjectId;
+  email: string;
+  tokenHash: string;
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AdminInviteSchema = new mongoose.Schema<IAdminInvite>(
+  {
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      trim: true,
+      lowercase: true
+    },
+    // Only a SHA-256 hash of the invite token is stored
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Inviting admin is required'],
+      ref: 'User'
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    acceptedAt: {
+      type: Date
+    },
+    acceptedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Add indexes for better query performance
+AdminInviteSchema.index({ email: 1, acceptedAt: 1 });
+// Expired invites are removed by MongoDB
+AdminInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AdminInvite = mongoose.model<IAdminInvite>('AdminInvite', AdminInviteSchema);
+export default AdminInvite;
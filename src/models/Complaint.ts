@@ -1,4 +1,5 @@
 import mongoose, { Types } from 'mongoose';
+import { ISoftDelete, softDeletePlugin } from './plugins/softDelete';
 
 export interface IResponse {
   message: string;
@@ -9,7 +10,7 @@ export interface IResponse {
   updatedAt: Date;
 }
 
-export interface IComplaint {
+export interface IComplaint extends ISoftDelete {
   title: string;
   description: string;
   category: 'service' | 'worker' | 'payment' | 'technical' | 'other';
@@ -138,6 +139,14 @@ ComplaintSchema.index({ priority: 1 });
 ComplaintSchema.index({ status: 1 });
 ComplaintSchema.index({ createdAt: -1 });
 ComplaintSchema.index({ assignedToId: 1 });
+// Full-text index used by the admin search
+ComplaintSchema.index(
+  { title: 'text', description: 'text', resolution: 'text' },
+  { name: 'complaint_text', weights: { title: 5, description: 2, resolution: 1 } }
+);
+
+// Deleted complaints stay in the collection until purged
+ComplaintSchema.plugin(softDeletePlugin);
 
 const Complaint = mongoose.model<IComplaint>('Complaint', ComplaintSchema);
 export default Complaint; 
\ No newline at end of file
@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+
+export interface ILoginAttempt {
+  // e.g. "account:user:jane@example.com" or "ip:203.0.113.7"
+  key: string;
+  failures: number;
+  // Failures older than this are forgotten
+  resetAt: Date;
+  // No login attempts are accepted before this time
+  blockedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LoginAttemptSchema = new mongoose.Schema<ILoginAttempt>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    failures: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    resetAt: {
+      type: Date,
+      required: true
+    },
+    blockedUntil: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Records are removed by MongoDB once their window has passed
+LoginAttemptSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
+export default LoginAttempt;
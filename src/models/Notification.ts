@@ -11,7 +11,9 @@ export interface INotification {
   type: 'info' | 'warning' | 'success' | 'error';
   targetUsers: Types.ObjectId[];
   isGlobal: boolean;
-  createdBy: Types.ObjectId;
+  createdBy?: Types.ObjectId;
+  // Template the title and message were rendered from, if any
+  template?: string;
   readBy: IReadBy[];
   expiresAt: Date;
   createdAt: Date;
@@ -45,10 +47,14 @@ const NotificationSchema = new mongoose.Schema<INotification>(
       type: Boolean,
       default: false
     },
+    // Empty for notifications generated by the system
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
-      ref: 'User',
-      required: true
+      ref: 'User'
+    },
+    template: {
+      type: String,
+      trim: true
     },
     readBy: [{
       user: {
@@ -0,0 +1,86 @@
+import mongoose, { Types } from 'mongoose';
+
+export type DeliveryChannel = 'email' | 'sms' | 'call';
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface INotificationDelivery {
+  notificationId: Types.ObjectId;
+  recipientId: Types.ObjectId;
+  recipientModel: 'User' | 'Worker';
+  channel: DeliveryChannel;
+  // Email address or phone number the message goes to
+  address?: string;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  // When the next attempt may run; also holds off retries while an attempt is in flight
+  nextAttemptAt?: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationDeliverySchema = new mongoose.Schema<INotificationDelivery>(
+  {
+    notificationId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Notification ID is required'],
+      ref: 'Notification'
+    },
+    recipientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Recipient ID is required'],
+      refPath: 'recipientModel'
+    },
+    recipientModel: {
+      type: String,
+      required: true,
+      enum: ['User', 'Worker']
+    },
+    channel: {
+      type: String,
+      required: [true, 'Channel is required'],
+      enum: ['email', 'sms', 'call']
+    },
+    address: {
+      type: String,
+      trim: true
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sent', 'failed', 'skipped'],
+      default: 'pending'
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    maxAttempts: {
+      type: Number,
+      default: 3,
+      min: 1
+    },
+    nextAttemptAt: {
+      type: Date
+    },
+    lastError: {
+      type: String,
+      maxlength: [500, 'Error cannot be more than 500 characters']
+    },
+    sentAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// One delivery per recipient and channel, so a notification is never sent twice
+NotificationDeliverySchema.index({ notificationId: 1, recipientId: 1, channel: 1 }, { unique: true });
+NotificationDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+const NotificationDelivery = mongoose.model<INotificationDelivery>('NotificationDelivery', NotificationDeliverySchema);
+export default NotificationDelivery;
@@ -1,4 +1,5 @@
 import mongoose, { Types } from 'mongoose';
+import { ITransferStatusChange, TransferStatus, TransferStatusChangeSchema } from './Transfer';
 
 export interface IOrderItem {
   name: string;
@@ -7,6 +8,14 @@ export interface IOrderItem {
   isBreakable: boolean;
 }
 
+// Service booked on an order, with its price at the time of ordering
+export interface IOrderService {
+  serviceId: Types.ObjectId;
+  name: string;
+  price: number;
+  quantity: number;
+}
+
 export interface IOrderRating {
   rating: number;
   comment?: string;
@@ -18,7 +27,9 @@ export interface IOrder {
   workerId?: Types.ObjectId;
   complaintId?: Types.ObjectId;
   items: IOrderItem[];
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  services: IOrderService[];
+  status: TransferStatus;
+  statusHistory: ITransferStatusChange[];
   totalAmount: number;
   paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
   scheduledDate: Date;
@@ -58,6 +69,29 @@ const OrderItemSchema = new mongoose.Schema<IOrderItem>({
   }
 });
 
+const OrderServiceSchema = new mongoose.Schema<IOrderService>({
+  serviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Service',
+    required: [true, 'Service ID is required']
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: [0, 'Price cannot be negative']
+  },
+  quantity: {
+    type: Number,
+    default: 1,
+    min: [1, 'Quantity must be at least 1']
+  }
+}, { _id: false });
+
 const OrderRatingSchema = new mongoose.Schema<IOrderRating>({
   rating: {
     type: Number,
@@ -92,11 +126,19 @@ const OrderSchema = new mongoose.Schema<IOrder>(
       ref: 'Complaint'
     },
     items: [OrderItemSchema],
+    services: {
+      type: [OrderServiceSchema],
+      validate: {
+        validator: (services: IOrderService[]) => services.length > 0,
+        message: 'At least one service is required'
+      }
+    },
     status: {
       type: String,
       enum: ['pending', 'in_progress', 'completed', 'cancelled'],
       default: 'pending'
     },
+    statusHistory: [TransferStatusChangeSchema],
     totalAmount: {
       type: Number,
       required: [true, 'Total amount is required'],
@@ -155,6 +197,7 @@ const OrderSchema = new mongoose.Schema<IOrder>(
 OrderSchema.index({ userId: 1 });
 OrderSchema.index({ workerId: 1 });
 OrderSchema.index({ complaintId: 1 });
+OrderSchema.index({ 'services.serviceId': 1 });
 OrderSchema.index({ status: 1 });
 OrderSchema.index({ paymentStatus: 1 });
 OrderSchema.index({ scheduledDate: 1 });
@@ -0,0 +1,97 @@
+import mongoose, { Types } from 'mongoose';
+
+export type PaymentKind = 'intent' | 'capture' | 'failure' | 'refund';
+
+export interface IPayment {
+  transferId: Types.ObjectId;
+  userId: Types.ObjectId;
+  kind: PaymentKind;
+  amount: number;
+  currency: string;
+  provider: string;
+  providerRef: string;
+  intentRef?: string;
+  duplicateOf?: string;
+  complaintId?: Types.ObjectId;
+  reason?: string;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentSchema = new mongoose.Schema<IPayment>(
+  {
+    transferId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Transfer ID is required'],
+      ref: 'Transfer'
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'User ID is required'],
+      ref: 'User'
+    },
+    kind: {
+      type: String,
+      enum: ['intent', 'capture', 'failure', 'refund'],
+      required: [true, 'Payment kind is required']
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0, 'Amount cannot be negative']
+    },
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true,
+      trim: true
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+      trim: true
+    },
+    providerRef: {
+      type: String,
+      required: [true, 'Provider reference is required'],
+      trim: true
+    },
+    // Intent this entry settles (captures, failures and refunds)
+    intentRef: {
+      type: String,
+      trim: true
+    },
+    // Capture already settling the transfer, set on a second charge that has to be refunded
+    duplicateOf: {
+      type: String,
+      trim: true
+    },
+    complaintId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Complaint'
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot be more than 500 characters']
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Add indexes for better query performance
+PaymentSchema.index({ transferId: 1, createdAt: -1 });
+// A provider event is only recorded once
+PaymentSchema.index({ provider: 1, providerRef: 1, kind: 1 }, { unique: true });
+// Duplicate captures waiting for review
+PaymentSchema.index({ duplicateOf: 1 }, { sparse: true });
+
+const Payment = mongoose.model<IPayment>('Payment', PaymentSchema);
+export default Payment;
@@ -0,0 +1,110 @@
+import mongoose, { Types } from 'mongoose';
+
+export interface IRouteRate {
+  from: string;
+  to: string;
+  fee: number;
+}
+
+export interface IPricingConfig {
+  baseFare: number;
+  perItemFee: number;
+  perKgRate: number;
+  fragileItemFee: number;
+  defaultRouteFee: number;
+  routeRates: IRouteRate[];
+  rushWindowHours: number;
+  rushSurchargePercent: number;
+  nightStartHour: number;
+  nightEndHour: number;
+  nightSurchargePercent: number;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RouteRateSchema = new mongoose.Schema<IRouteRate>({
+  from: {
+    type: String,
+    required: [true, 'Route origin is required'],
+    trim: true
+  },
+  to: {
+    type: String,
+    required: [true, 'Route destination is required'],
+    trim: true
+  },
+  fee: {
+    type: Number,
+    required: [true, 'Route fee is required'],
+    min: [0, 'Route fee cannot be negative']
+  }
+}, { _id: false });
+
+const PricingConfigSchema = new mongoose.Schema<IPricingConfig>(
+  {
+    baseFare: {
+      type: Number,
+      default: 20,
+      min: [0, 'Base fare cannot be negative']
+    },
+    perItemFee: {
+      type: Number,
+      default: 5,
+      min: [0, 'Per item fee cannot be negative']
+    },
+    perKgRate: {
+      type: Number,
+      default: 1.5,
+      min: [0, 'Per kg rate cannot be negative']
+    },
+    fragileItemFee: {
+      type: Number,
+      default: 10,
+      min: [0, 'Fragile item fee cannot be negative']
+    },
+    defaultRouteFee: {
+      type: Number,
+      default: 15,
+      min: [0, 'Default route fee cannot be negative']
+    },
+    routeRates: [RouteRateSchema],
+    rushWindowHours: {
+      type: Number,
+      default: 6,
+      min: [0, 'Rush window cannot be negative']
+    },
+    rushSurchargePercent: {
+      type: Number,
+      default: 25,
+      min: [0, 'Rush surcharge cannot be negative']
+    },
+    nightStartHour: {
+      type: Number,
+      default: 22,
+      min: 0,
+      max: 23
+    },
+    nightEndHour: {
+      type: Number,
+      default: 6,
+      min: 0,
+      max: 23
+    },
+    nightSurchargePercent: {
+      type: Number,
+      default: 20,
+      min: [0, 'Night surcharge cannot be negative']
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+const PricingConfig = mongoose.model<IPricingConfig>('PricingConfig', PricingConfigSchema);
+export default PricingConfig;
@@ -6,6 +6,9 @@ export interface IService {
   description: string;
   price: number;
   duration: number;
+  isArchived: boolean;
+  archivedAt?: Date;
+  archivedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,6 +36,18 @@ const ServiceSchema = new mongoose.Schema<IService>(
       type: Number,
       required: [true, 'Service duration is required'],
       min: [1, 'Duration must be at least 1 minute']
+    },
+    // Archived services are hidden from the catalog but stay referenced by past orders
+    isArchived: {
+      type: Boolean,
+      default: false
+    },
+    archivedAt: {
+      type: Date
+    },
+    archivedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
     }
   },
   {
@@ -42,5 +57,6 @@ const ServiceSchema = new mongoose.Schema<IService>(
 
 // Add indexes for better query performance
 ServiceSchema.index({ name: 1 });
+ServiceSchema.index({ isArchived: 1, price: 1 });
 
 export const Service = mongoose.model<IService>('Service', ServiceSchema); 
\ No newline at end of file
@@ -0,0 +1,83 @@
+import mongoose, { Types } from 'mongoose';
+
+export type SessionRevokedReason =
+  | 'logout'
+  | 'logout_all'
+  | 'reuse_detected'
+  | 'password_changed'
+  | 'account_deleted'
+  | 'two_factor_required';
+
+export interface ISession {
+  _id: Types.ObjectId;
+  principalId: Types.ObjectId;
+  principal: 'user' | 'worker';
+  currentJti: string;
+  userAgent?: string;
+  ip?: string;
+  // Opened through a two-factor challenge
+  twoFactorVerified: boolean;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new mongoose.Schema<ISession>(
+  {
+    principalId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Principal ID is required']
+    },
+    principal: {
+      type: String,
+      enum: ['user', 'worker'],
+      required: [true, 'Principal type is required']
+    },
+    // ID of the only refresh token of this session that may still be used
+    currentJti: {
+      type: String,
+      required: true
+    },
+    userAgent: {
+      type: String,
+      trim: true
+    },
+    ip: {
+      type: String,
+      trim: true
+    },
+    twoFactorVerified: {
+      type: Boolean,
+      default: false
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'logout_all', 'reuse_detected', 'password_changed', 'account_deleted', 'two_factor_required']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Add indexes for better query performance
+SessionSchema.index({ principalId: 1, principal: 1, revokedAt: 1 });
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model<ISession>('Session', SessionSchema);
+export default Session;
@@ -1,4 +1,13 @@
 import mongoose, { Types } from 'mongoose';
+import { getDefaultTimeZone, isValidTimeZone, zonedTimeToUtc } from '../utils/timezone';
+import { ISoftDelete, softDeletePlugin } from './plugins/softDelete';
+
+// IATA airline code (2 characters) or ICAO code (3 letters), 1-4 digits and an optional suffix, e.g. TK1234, BAW12A
+export const FLIGHT_NUMBER_PATTERN = /^([A-Z\d]{2}|[A-Z]{3})\d{1,4}[A-Z]?$/;
+
+// Uppercase a flight number and drop spaces and dashes ("tk 1234" -> "TK1234")
+export const normalizeFlightNumber = (flightNumber: string): string =>
+  flightNumber.replace(/[\s-]/g, '').toUpperCase();
 
 export interface ITransferItem {
   name: string;
@@ -13,21 +22,53 @@ export interface ITransferRating {
   createdAt: Date;
 }
 
-export interface ITransfer {
+export type TransferStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface ITransferStatusChange {
+  from: TransferStatus;
+  to: TransferStatus;
+  changedBy: Types.ObjectId;
+  changedByRole: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+export interface ITransferFlightStatus {
+  status: 'scheduled' | 'delayed' | 'cancelled' | 'landed' | 'unknown';
+  delayMinutes: number;
+  // Pickup time before any flight delay was applied
+  originalPickUpAt?: Date;
+  provider: string;
+  checkedAt: Date;
+}
+
+export interface ITransferCoordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface ITransfer extends ISoftDelete {
   userId: Types.ObjectId;
   workerId?: Types.ObjectId;
+  assignedAt?: Date;
   complaintId?: Types.ObjectId;
   items: ITransferItem[];
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  status: TransferStatus;
+  statusHistory: ITransferStatusChange[];
   totalAmount: number;
   paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
+  refundedAmount: number;
   scheduledDate: Date;
   from: string;
   to: string;
+  toCoordinates?: ITransferCoordinates;
   flightGate?: string;
   flightNumber?: string;
   pickUpDate: Date;
   pickUpTime: string;
+  pickUpTimezone: string;
+  pickUpAt: Date;
+  flightStatus?: ITransferFlightStatus;
   completedAt?: Date;
   cancelledAt?: Date;
   rating?: ITransferRating;
@@ -77,6 +118,75 @@ const TransferRatingSchema = new mongoose.Schema<ITransferRating>({
   }
 });
 
+const TransferCoordinatesSchema = new mongoose.Schema<ITransferCoordinates>({
+  lat: {
+    type: Number,
+    required: [true, 'Latitude is required'],
+    min: [-90, 'Latitude must be between -90 and 90'],
+    max: [90, 'Latitude must be between -90 and 90']
+  },
+  lng: {
+    type: Number,
+    required: [true, 'Longitude is required'],
+    min: [-180, 'Longitude must be between -180 and 180'],
+    max: [180, 'Longitude must be between -180 and 180']
+  }
+}, { _id: false });
+
+// Shared with orders, which follow the same status lifecycle
+export const TransferStatusChangeSchema = new mongoose.Schema<ITransferStatusChange>({
+  from: {
+    type: String,
+    enum: ['pending', 'in_progress', 'completed', 'cancelled'],
+    required: true
+  },
+  to: {
+    type: String,
+    enum: ['pending', 'in_progress', 'completed', 'cancelled'],
+    required: true
+  },
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  changedByRole: {
+    type: String,
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot be more than 500 characters']
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const TransferFlightStatusSchema = new mongoose.Schema<ITransferFlightStatus>({
+  status: {
+    type: String,
+    enum: ['scheduled', 'delayed', 'cancelled', 'landed', 'unknown'],
+    default: 'unknown'
+  },
+  delayMinutes: {
+    type: Number,
+    default: 0
+  },
+  originalPickUpAt: {
+    type: Date
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  checkedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const TransferSchema = new mongoose.Schema<ITransfer>(
   {
     userId: {
@@ -88,6 +198,9 @@ const TransferSchema = new mongoose.Schema<ITransfer>(
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Worker'
     },
+    assignedAt: {
+      type: Date
+    },
     complaintId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Complaint'
@@ -98,6 +211,7 @@ const TransferSchema = new mongoose.Schema<ITransfer>(
       enum: ['pending', 'in_progress', 'completed', 'cancelled'],
       default: 'pending'
     },
+    statusHistory: [TransferStatusChangeSchema],
     totalAmount: {
       type: Number,
       required: [true, 'Total amount is required'],
@@ -108,6 +222,12 @@ const TransferSchema = new mongoose.Schema<ITransfer>(
       enum: ['pending', 'paid', 'failed', 'refunded'],
       default: 'pending'
     },
+    // Amount refunded or being refunded, reserved before the provider is called
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Refunded amount cannot be negative']
+    },
     scheduledDate: {
       type: Date,
       required: [true, 'Scheduled date is required']
@@ -122,13 +242,17 @@ const TransferSchema = new mongoose.Schema<ITransfer>(
       required: [true, 'To location is required'],
       trim: true
     },
+    // Destination coordinates, used for the live tracking ETA
+    toCoordinates: TransferCoordinatesSchema,
     flightGate: {
       type: String,
       trim: true
     },
     flightNumber: {
       type: String,
-      trim: true
+      trim: true,
+      set: (value?: string) => (value ? normalizeFlightNumber(value) : value),
+      match: [FLIGHT_NUMBER_PATTERN, 'Please provide a valid flight number, e.g. TK1234']
     },
     pickUpDate: {
       type: Date,
@@ -139,6 +263,20 @@ const TransferSchema = new mongoose.Schema<ITransfer>(
       required: [true, 'Pick up time is required'],
       trim: true
     },
+    // IANA time zone of the pickup location, e.g. Europe/Istanbul
+    pickUpTimezone: {
+      type: String,
+      default: getDefaultTimeZone,
+      validate: {
+        validator: isValidTimeZone,
+        message: 'Please provide a valid IANA time zone'
+      }
+    },
+    // pickUpDate + pickUpTime in pickUpTimezone, as a UTC instant
+    pickUpAt: {
+      type: Date
+    },
+    flightStatus: TransferFlightStatusSchema,
     completedAt: {
       type: Date
     },
@@ -152,6 +290,17 @@ const TransferSchema = new mongoose.Schema<ITransfer>(
   }
 );
 
+// Keep pickUpAt in sync when a transfer is saved
+TransferSchema.pre('validate', function (next) {
+  const timeZone = this.pickUpTimezone || getDefaultTimeZone();
+  // An invalid time zone is reported by the pickUpTimezone validator
+  if (this.pickUpDate && this.pickUpTime && isValidTimeZone(timeZone) &&
+    (this.isNew || this.isModified('pickUpDate') || this.isModified('pickUpTime') || this.isModified('pickUpTimezone'))) {
+    this.pickUpAt = zonedTimeToUtc(this.pickUpDate, this.pickUpTime, timeZone);
+  }
+  next();
+});
+
 // Add indexes for better query performance
 TransferSchema.index({ userId: 1 });
 TransferSchema.index({ workerId: 1 });
@@ -160,6 +309,15 @@ TransferSchema.index({ status: 1 });
 TransferSchema.index({ paymentStatus: 1 });
 TransferSchema.index({ scheduledDate: 1 });
 TransferSchema.index({ createdAt: -1 });
+TransferSchema.index({ pickUpAt: 1, status: 1 });
+// Full-text index used by the admin search
+TransferSchema.index(
+  { 'items.name': 'text', flightNumber: 'text', from: 'text', to: 'text' },
+  { name: 'transfer_text', weights: { flightNumber: 5, 'items.name': 3, from: 2, to: 2 } }
+);
+
+// Deleted transfers stay in the collection until purged
+TransferSchema.plugin(softDeletePlugin);
 
 const Transfer = mongoose.model<ITransfer>('Transfer', TransferSchema);
 export default Transfer; 
\ No newline at end of file
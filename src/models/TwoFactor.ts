@@ -0,0 +1,54 @@
+import mongoose, { Types } from 'mongoose';
+
+export interface ITwoFactor {
+  _id: Types.ObjectId;
+  principalId: Types.ObjectId;
+  principal: 'user' | 'worker';
+  // Encrypted TOTP secret; set at enrolment, active once enabledAt is set
+  secret: string;
+  enabledAt?: Date;
+  // SHA-256 hashes of the unused backup codes
+  backupCodes: string[];
+  // Last accepted TOTP step, so a code cannot be used twice
+  lastUsedStep?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TwoFactorSchema = new mongoose.Schema<ITwoFactor>(
+  {
+    principalId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Principal ID is required']
+    },
+    principal: {
+      type: String,
+      enum: ['user', 'worker'],
+      required: [true, 'Principal type is required']
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false
+    },
+    enabledAt: {
+      type: Date
+    },
+    backupCodes: {
+      type: [String],
+      default: [],
+      select: false
+    },
+    lastUsedStep: {
+      type: Number
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+TwoFactorSchema.index({ principalId: 1, principal: 1 }, { unique: true });
+
+const TwoFactor = mongoose.model<ITwoFactor>('TwoFactor', TwoFactorSchema);
+export default TwoFactor;
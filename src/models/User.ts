@@ -1,10 +1,12 @@
 import mongoose, { Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ISoftDelete, softDeletePlugin } from './plugins/softDelete';
 
-export interface IUser {
+export interface IUser extends ISoftDelete {
   _id: mongoose.Types.ObjectId;
   name: string;
   email: string;
+  emailVerified: boolean;
   phone: string;
   password: string;
   identityNumber?: string;
@@ -46,6 +48,10 @@ const UserSchema = new mongoose.Schema<IUser, UserModel, IUserMethods>(
       lowercase: true,
       match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please provide a valid email'],
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
     phone: {
       type: String,
       required: [true, 'Phone number is required'],
@@ -138,5 +144,14 @@ UserSchema.methods.comparePassword = async function (enteredPassword: string): P
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
+// Full-text index used by the admin search
+UserSchema.index(
+  { name: 'text', email: 'text', phone: 'text' },
+  { name: 'user_text', weights: { name: 5, email: 3, phone: 2 } }
+);
+
+// Deleted users stay in the collection until purged
+UserSchema.plugin(softDeletePlugin);
+
 const User = mongoose.model<IUser, UserModel>('User', UserSchema);
 export default User; 
\ No newline at end of file
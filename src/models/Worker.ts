@@ -1,5 +1,6 @@
 import mongoose, { Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ISoftDelete, softDeletePlugin } from './plugins/softDelete';
 
 export interface IServiceRating {
   transferId: mongoose.Types.ObjectId;
@@ -8,14 +9,17 @@ export interface IServiceRating {
   createdAt: Date;
 }
 
-export interface IWorker {
+export interface IWorker extends ISoftDelete {
   _id: mongoose.Types.ObjectId;
   name: string;
   email: string;
   phone: string;
   password: string;
   identityNumber?: string;
+  // Set by the worker or an admin, e.g. when off duty; dispatch never changes it
   isAvailable: boolean;
+  // Pending and in-progress transfers assigned to the worker, kept up to date by dispatch
+  activeTransfers: number;
   role: 'worker' | 'manager' | 'supervisor';
   specialization: string;
   rating: number;
@@ -99,6 +103,11 @@ const WorkerSchema = new mongoose.Schema<IWorker, WorkerModel, IWorkerMethods>(
       type: Boolean,
       default: true,
     },
+    activeTransfers: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     role: {
       type: String,
       enum: ['worker', 'manager', 'supervisor'],
@@ -179,5 +188,14 @@ WorkerSchema.methods.calculateAverageRating = function(): number {
   return sum / this.serviceRatings.length;
 };
 
+// Full-text index used by the admin search
+WorkerSchema.index(
+  { name: 'text', email: 'text', phone: 'text', specialization: 'text' },
+  { name: 'worker_text', weights: { name: 5, email: 3, phone: 2, specialization: 1 } }
+);
+
+// Deleted workers stay in the collection until purged
+WorkerSchema.plugin(softDeletePlugin);
+
 const Worker = mongoose.model<IWorker, WorkerModel>('Worker', WorkerSchema);
 export default Worker; 
\ No newline at end of file
@@ -0,0 +1,77 @@
+import mongoose, { Types } from 'mongoose';
+
+export interface IWorkerLocation {
+  transferId: Types.ObjectId;
+  workerId: Types.ObjectId;
+  // GeoJSON point, coordinates are [lng, lat]
+  location: {
+    type: 'Point';
+    coordinates: [number, number];
+  };
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  recordedAt: Date;
+  createdAt: Date;
+}
+
+// Positions are kept for dispute handling, then removed by MongoDB
+const getRetentionSeconds = (): number =>
+  (process.env.LOCATION_RETENTION_DAYS ? parseInt(process.env.LOCATION_RETENTION_DAYS) : 30) * 24 * 60 * 60;
+
+const WorkerLocationSchema = new mongoose.Schema<IWorkerLocation>(
+  {
+    transferId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Transfer ID is required'],
+      ref: 'Transfer'
+    },
+    workerId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: [true, 'Worker ID is required'],
+      ref: 'Worker'
+    },
+    location: {
+      type: {
+        type: String,
+        enum: ['Point'],
+        default: 'Point'
+      },
+      coordinates: {
+        type: [Number],
+        required: [true, 'Coordinates are required']
+      }
+    },
+    // Accuracy radius in meters
+    accuracy: {
+      type: Number,
+      min: [0, 'Accuracy cannot be negative']
+    },
+    // Degrees clockwise from north
+    heading: {
+      type: Number,
+      min: [0, 'Heading must be between 0 and 360'],
+      max: [360, 'Heading must be between 0 and 360']
+    },
+    // Meters per second
+    speed: {
+      type: Number,
+      min: [0, 'Speed cannot be negative']
+    },
+    recordedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// Add indexes for better query performance
+WorkerLocationSchema.index({ transferId: 1, recordedAt: 1 });
+WorkerLocationSchema.index({ location: '2dsphere' });
+WorkerLocationSchema.index({ createdAt: 1 }, { expireAfterSeconds: getRetentionSeconds() });
+
+const WorkerLocation = mongoose.model<IWorkerLocation>('WorkerLocation', WorkerLocationSchema);
+export default WorkerLocation;
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Types } from 'mongoose';
+
+export interface ISoftDelete {
+  deletedAt?: Date;
+  // Admin, or the account itself when it deleted itself
+  deletedBy?: Types.ObjectId;
+  // Set by the purge job once personal data was removed; such documents cannot be restored
+  anonymisedAt?: Date;
+}
+
+const FILTERED_QUERIES = [
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'countDocuments',
+  'distinct',
+  'updateOne',
+  'updateMany'
+] as const;
+
+// True when the filter already says which deletion state it wants
+const mentionsDeletedAt = (filter: unknown): boolean => {
+  if (Array.isArray(filter)) {
+    return filter.some(mentionsDeletedAt);
+  }
+  if (!filter || typeof filter !== 'object') {
+    return false;
+  }
+  return Object.entries(filter).some(([key, value]) =>
+    key === 'deletedAt' || (key.startsWith('$') && mentionsDeletedAt(value))
+  );
+};
+
+/**
+ * Soft deletion: adds deletedAt, deletedBy and anonymisedAt, and hides deleted
+ * documents from queries and aggregations. Queries that filter on deletedAt
+ * themselves (trash listings, restores, the purge job) see them.
+ */
+export const softDeletePlugin = (schema: Schema): void => {
+  schema.add({
+    deletedAt: {
+      type: Date
+    },
+    deletedBy: {
+      type: mongoose.Schema.Types.ObjectId
+    },
+    anonymisedAt: {
+      type: Date
+    }
+  });
+
+  schema.index({ deletedAt: 1 }, { sparse: true });
+
+  for (const operation of FILTERED_QUERIES) {
+    schema.pre(operation, function () {
+      if (!mentionsDeletedAt(this.getFilter())) {
+        this.where({ deletedAt: null });
+      }
+    });
+  }
+
+  schema.pre('aggregate', function () {
+    const pipeline = this.pipeline();
+    const first = pipeline[0];
+    // $geoNear has to stay the first stage
+    if (first && ('$geoNear' in first || ('$match' in first && mentionsDeletedAt(first.$match)))) {
+      return;
+    }
+    pipeline.unshift({ $match: { deletedAt: null } });
+  });
+};
@@ -9,6 +9,8 @@ import {
   getAllAds,
 } from '../controllers/adController';
 import { protect, authorize } from '../middleware/auth';
+import { allowFields } from '../middleware/fieldPolicy';
+import { AD_WRITE_POLICY } from '../config/writePolicies';
 
 import cors from 'cors'; // تأكد أنها موجودة
 
@@ -40,6 +42,10 @@ router.use(protect);
  *           type: string
  *           format: date-time
  *           description: Expiration date of the ad
+ *         status:
+ *           type: string
+ *           enum: [active, deactive]
+ *           description: Set to deactive once the ad has expired
  *         createdByAdminId:
  *           type: string
  *           description: ID of the admin who created the ad
@@ -146,6 +152,33 @@ router.get("/", getAds);
  *     description: Returns all ads, including those that are expired. Only accessible by admin users.
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, expireDate]
+ *           default: createdAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from pagination.nextCursor. Send an empty value to start cursor pagination; page is ignored when set.
  *     responses:
  *       200:
  *         description: Successful response with all ads
@@ -157,10 +190,14 @@ router.get("/", getAds);
  *                 success:
  *                   type: boolean
  *                   example: true
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
  *                 data:
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Ad'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
  *       403:
  *         description: Forbidden - Not authorized
  *         content:
@@ -302,19 +339,16 @@ router.get("/:id", getAd);
  *         description: Forbidden
  *       404:
  *         description: Ad not found
+ *       422:
+ *         description: The body contains fields that can never be updated here; errors.fields lists them
  */
 
 router.put(
 	"/:id",
 	protect,
 	authorize("admin"),
+	allowFields(AD_WRITE_POLICY),
 	[
-		body("title")
-			.exists()
-			.isString()
-			.withMessage("Title must be a string")
-			.isLength({ min: 5 })
-			.withMessage("Title cannot be empty"),
 		body("url").optional().isURL().withMessage("Please provide a valid URL"),
 		body("image").optional().isString().withMessage("Image must be a string"),
 		body("expireDate")
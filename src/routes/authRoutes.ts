@@ -1,9 +1,35 @@
 import express from 'express';
 import { Request, Response, NextFunction } from 'express-serve-static-core';
 import { body } from 'express-validator';
-import { register, login, getMe, logout, refreshToken } from '../controllers/authController';
-import { protect } from '../middleware/auth';
+import {
+  register,
+  login,
+  workerLogin,
+  getMe,
+  logout,
+  logoutAll,
+  refreshToken,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  inviteAdmin,
+  acceptInvite,
+  changePassword,
+  getSessions,
+  unlockLogin,
+  getTwoFactor,
+  enrolTwoFactor,
+  verifyTwoFactor,
+  disableTwoFactorAuth,
+  regenerateTwoFactorBackupCodes,
+  enrolTwoFactorChallenge,
+  completeTwoFactorChallenge
+} from '../controllers/authController';
+import { protect, authorize } from '../middleware/auth';
 import { authLimiter } from '../middleware/rateLimiter';
+import { passwordPolicyValidator } from '../utils/passwordPolicy';
+import { SUPPORTED_LANGUAGES } from '../services/notificationTemplates';
 
 const router = express.Router();
 
@@ -63,21 +89,47 @@ interface RefreshTokenRequestBody {
  *           description: JWT access token
  *         refresh_token:
  *           type: string
- *           description: JWT refresh token
+ *           description: Single-use JWT refresh token, rotated on every refresh
  *         expires_in:
  *           type: number
  *           description: Access token expiration timestamp
  *         refresh_expires_in:
  *           type: number
  *           description: Refresh token expiration timestamp
+ *     TwoFactorChallenge:
+ *       type: object
+ *       description: Returned by login instead of tokens when a second factor is needed
+ *       properties:
+ *         two_factor_required:
+ *           type: boolean
+ *           example: true
+ *         enrolment_required:
+ *           type: boolean
+ *           description: The account's role requires 2FA but it has not enrolled yet; a setup code was emailed
+ *         challenge_token:
+ *           type: string
+ *           description: Short-lived token for the /auth/2fa/challenge endpoints
+ *         expires_in:
+ *           type: number
+ *           description: Challenge token expiration timestamp
+ *     TwoFactorEnrolment:
+ *       type: object
+ *       properties:
+ *         secret:
+ *           type: string
+ *           description: Base32 TOTP secret to enter in an authenticator app
+ *         otpauth_url:
+ *           type: string
+ *           description: otpauth:// URL to show as a QR code
  */
 
 /**
  * @swagger
  * /api/v1/auth/register:
  *   post:
- *     summary: Register a new user
+ *     summary: Register a new customer
  *     tags: [Authentication]
+ *     description: Always creates a customer account. Administrators are created through admin invites and workers by administrators.
  *     requestBody:
  *       required: true
  *       content:
@@ -103,6 +155,7 @@ interface RefreshTokenRequestBody {
  *                 type: string
  *               preferredLang:
  *                 type: string
+ *                 enum: [en, ar]
  *                 default: en
  *               region:
  *                 type: string
@@ -125,7 +178,7 @@ interface RefreshTokenRequestBody {
  *                 data:
  *                   $ref: '#/components/schemas/TokenResponse'
  *       400:
- *         description: Bad request
+ *         description: Bad request or a role other than customer was requested
  */
 router.post(
   '/register',
@@ -133,13 +186,11 @@ router.post(
     body('name').not().isEmpty().withMessage('Name is required'),
     body('email').isEmail().withMessage('Please include a valid email'),
     body('phone').not().isEmpty().withMessage('Phone number is required'),
-    body('password')
-      .isLength({ min: 6 })
-      .withMessage('Password must be at least 6 characters'),
+    passwordPolicyValidator(),
     body('preferredLang')
       .optional()
-      .isString()
-      .withMessage('Preferred language must be a string'),
+      .isIn(SUPPORTED_LANGUAGES)
+      .withMessage(`Preferred language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`),
     body('region')
       .optional()
       .isString()
@@ -151,7 +202,11 @@ router.post(
     body('image')
       .optional()
       .isString()
-      .withMessage('Image must be a string')
+      .withMessage('Image must be a string'),
+    body('role')
+      .optional()
+      .equals('customer')
+      .withMessage('Only customer accounts can be registered')
   ],
   (req: Request, res: Response, next: NextFunction) => {
     register(req, res, next);
@@ -164,6 +219,10 @@ router.post(
  *   post:
  *     summary: Login user
  *     tags: [Authentication]
+ *     description: >
+ *       Repeated failures for an account delay further attempts, doubling each time, and
+ *       lock the account for LOGIN_LOCKOUT_MINUTES after LOGIN_MAX_FAILURES. Failures are
+ *       also counted per client IP across all accounts.
  *     requestBody:
  *       required: true
  *       content:
@@ -181,7 +240,7 @@ router.post(
  *                 format: password
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a two-factor challenge when the account has 2FA enabled or its role requires it
  *         content:
  *           application/json:
  *             schema:
@@ -190,9 +249,15 @@ router.post(
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/TokenResponse'
+ *                   oneOf:
+ *                     - $ref: '#/components/schemas/TokenResponse'
+ *                     - $ref: '#/components/schemas/TwoFactorChallenge'
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many failed logins for this account or address; see the Retry-After header
+ *       403:
+ *         description: Email not verified (when REQUIRE_EMAIL_VERIFICATION is enabled)
  */
 router.post(
   '/login',
@@ -205,6 +270,58 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/worker/login:
+ *   post:
+ *     summary: Login worker
+ *     tags: [Authentication]
+ *     description: Issues tokens for a worker account. The tokens carry a worker principal.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Login successful, or a two-factor challenge when the account has 2FA enabled or its role requires it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   oneOf:
+ *                     - $ref: '#/components/schemas/TokenResponse'
+ *                     - $ref: '#/components/schemas/TwoFactorChallenge'
+ *       401:
+ *         description: Invalid credentials
+ *       429:
+ *         description: Too many failed logins for this account or address; see the Retry-After header
+ */
+router.post(
+  '/worker/login',
+  [
+    body('email').isEmail().withMessage('Please include a valid email'),
+    body('password').exists().withMessage('Password is required')
+  ],
+  (req: Request<{}, {}, LoginRequestBody>, res: Response, next: NextFunction) => {
+    workerLogin(req, res, next);
+  }
+);
+
 /**
  * @swagger
  * /api/v1/auth/me:
@@ -254,6 +371,7 @@ router.get('/me', protect, (req: Request, res: Response, next: NextFunction) =>
  * /api/v1/auth/logout:
  *   get:
  *     summary: Logout user
+ *     description: Revokes the current session. Its access and refresh tokens stop working.
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -276,10 +394,47 @@ router.get('/logout', protect, (req: Request, res: Response, next: NextFunction)
 
 /**
  * @swagger
- * /api/v1/auth/refresh:
+ * /api/v1/auth/logout-all:
  *   post:
- *     summary: Refresh access token
+ *     summary: Logout from all devices
+ *     description: Revokes every active session of the current user, including this one.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revokedSessions:
+ *                       type: integer
+ *       401:
+ *         description: Not authorized
+ */
+router.post('/logout-all', protect, (req: Request, res: Response, next: NextFunction) => {
+  logoutAll(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/password:
+ *   put:
+ *     summary: Change password
+ *     description: >
+ *       Changes the password of the logged in user or worker. The new password must follow the password
+ *       policy (PASSWORD_MIN_LENGTH and the PASSWORD_REQUIRE_* settings). Every other session is revoked
+ *       and a security notice is emailed; this device stays signed in.
  *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -287,14 +442,18 @@ router.get('/logout', protect, (req: Request, res: Response, next: NextFunction)
  *           schema:
  *             type: object
  *             required:
- *               - refresh_token
+ *               - currentPassword
+ *               - newPassword
  *             properties:
- *               refresh_token:
+ *               currentPassword:
  *                 type: string
- *                 description: Valid refresh token
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
  *     responses:
  *       200:
- *         description: New tokens generated successfully
+ *         description: Password changed
  *         content:
  *           application/json:
  *             schema:
@@ -303,19 +462,758 @@ router.get('/logout', protect, (req: Request, res: Response, next: NextFunction)
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/TokenResponse'
+ *                   type: object
+ *                   properties:
+ *                     message:
+ *                       type: string
+ *                     revokedSessions:
+ *                       type: integer
+ *       400:
+ *         description: New password breaks the password policy or equals the current one
+ *       401:
+ *         description: Not authorized or current password is incorrect
+ */
+router.put(
+  '/password',
+  protect,
+  [
+    body('currentPassword').not().isEmpty().withMessage('Current password is required'),
+    passwordPolicyValidator('newPassword')
+  ],
+  (req: Request, res: Response, next: NextFunction) => {
+    changePassword(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: Signed in devices of the current user or worker, most recently used first.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 count:
+ *                   type: integer
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       _id:
+ *                         type: string
+ *                       userAgent:
+ *                         type: string
+ *                       ip:
+ *                         type: string
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lastUsedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       expiresAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *                         description: True for the session making this request
+ *       401:
+ *         description: Not authorized
+ */
+router.get('/sessions', protect, (req: Request, res: Response, next: NextFunction) => {
+  getSessions(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa:
+ *   get:
+ *     summary: Get two-factor authentication status
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status of the current user or worker
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     required:
+ *                       type: boolean
+ *                       description: True when the role cannot log in without 2FA (TWO_FACTOR_REQUIRED_ROLES)
+ *                     backupCodesRemaining:
+ *                       type: integer
+ *       401:
+ *         description: Not authorized
+ */
+router.get('/2fa', protect, (req: Request, res: Response, next: NextFunction) => {
+  getTwoFactor(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/enrol:
+ *   post:
+ *     summary: Start two-factor enrolment
+ *     description: Creates a new TOTP secret. It takes effect once confirmed with /auth/2fa/verify.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret for the authenticator app
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorEnrolment'
+ *       401:
+ *         description: Not authorized
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post('/2fa/enrol', protect, (req: Request, res: Response, next: NextFunction) => {
+  enrolTwoFactor(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/verify:
+ *   post:
+ *     summary: Confirm two-factor enrolment
+ *     description: Enables 2FA with the first code from the authenticator app and returns one-time backup codes. They are not shown again.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     backup_codes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid code or no enrolment pending
  *       401:
- *         description: Invalid refresh token
+ *         description: Not authorized
+ */
+router.post(
+  '/2fa/verify',
+  protect,
+  [body('code').not().isEmpty().withMessage('Code is required')],
+  (req: Request, res: Response, next: NextFunction) => {
+    verifyTwoFactor(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *                 description: Current TOTP code or a backup code
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
  *       400:
- *         description: Refresh token is required
+ *         description: Bad request
+ *       401:
+ *         description: Not authorized, wrong password or invalid code
+ *       403:
+ *         description: Two-factor authentication is mandatory for this role
  */
 router.post(
-  '/refresh',
+  '/2fa/disable',
+  protect,
   [
-    body('refresh_token').not().isEmpty().withMessage('Refresh token is required')
+    body('password').not().isEmpty().withMessage('Password is required'),
+    body('code').not().isEmpty().withMessage('Code is required')
   ],
-  (req: Request<{}, {}, RefreshTokenRequestBody>, res: Response, next: NextFunction) => {
-    refreshToken(req, res, next);
+  (req: Request, res: Response, next: NextFunction) => {
+    disableTwoFactorAuth(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/backup-codes:
+ *   post:
+ *     summary: Regenerate backup codes
+ *     description: Replaces all backup codes. Earlier codes stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current TOTP code or a backup code
+ *     responses:
+ *       200:
+ *         description: New backup codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     backup_codes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Two-factor authentication is not enabled
+ *       401:
+ *         description: Not authorized or invalid code
+ */
+router.post(
+  '/2fa/backup-codes',
+  protect,
+  [body('code').not().isEmpty().withMessage('Code is required')],
+  (req: Request, res: Response, next: NextFunction) => {
+    regenerateTwoFactorBackupCodes(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/challenge/enrol:
+ *   post:
+ *     summary: Enrol two-factor authentication during login
+ *     description: >
+ *       For accounts whose login returned enrolment_required. The login emails a setup code to the
+ *       account, which has to be sent along with the challenge token. Confirm the secret with /auth/2fa/challenge.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challenge_token
+ *               - email_code
+ *             properties:
+ *               challenge_token:
+ *                 type: string
+ *               email_code:
+ *                 type: string
+ *                 description: Setup code emailed at login
+ *     responses:
+ *       200:
+ *         description: Secret for the authenticator app
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorEnrolment'
+ *       401:
+ *         description: Invalid or expired challenge token or wrong setup code
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post(
+  '/2fa/challenge/enrol',
+  [
+    body('challenge_token').not().isEmpty().withMessage('Challenge token is required'),
+    body('email_code').not().isEmpty().withMessage('Email code is required')
+  ],
+  (req: Request, res: Response, next: NextFunction) => {
+    enrolTwoFactorChallenge(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/challenge:
+ *   post:
+ *     summary: Complete login with a second factor
+ *     description: >
+ *       Exchanges the challenge token from login and a TOTP or backup code for tokens. When the
+ *       login required enrolment, the code confirms it and the backup codes are returned as well.
+ *       Wrong codes count towards the failed login lockout.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challenge_token
+ *               - code
+ *             properties:
+ *               challenge_token:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: TOTP code or a backup code
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/TokenResponse'
+ *                     - type: object
+ *                       properties:
+ *                         backup_codes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           description: Only present when the login confirmed enrolment
+ *       400:
+ *         description: Invalid code during enrolment
+ *       401:
+ *         description: Invalid or expired challenge token, or invalid code
+ *       429:
+ *         description: Too many failed attempts; see the Retry-After header
+ */
+router.post(
+  '/2fa/challenge',
+  [
+    body('challenge_token').not().isEmpty().withMessage('Challenge token is required'),
+    body('code').not().isEmpty().withMessage('Code is required')
+  ],
+  (req: Request, res: Response, next: NextFunction) => {
+    completeTwoFactorChallenge(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     description: >
+ *       Exchanges a refresh token for a new token pair. Each refresh token can be used once;
+ *       reusing an old one revokes the whole session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refresh_token
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *                 description: Valid refresh token
+ *     responses:
+ *       200:
+ *         description: New tokens generated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TokenResponse'
+ *       401:
+ *         description: Invalid, reused or revoked refresh token
+ *       400:
+ *         description: Refresh token is required
+ */
+router.post(
+  '/refresh',
+  [
+    body('refresh_token').not().isEmpty().withMessage('Refresh token is required')
+  ],
+  (req: Request<{}, {}, RefreshTokenRequestBody>, res: Response, next: NextFunction) => {
+    refreshToken(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link
+ *     tags: [Authentication]
+ *     description: Always responds with success so that registered emails cannot be discovered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Bad request
+ */
+router.post(
+  '/forgot-password',
+  [body('email').isEmail().withMessage('Please include a valid email')],
+  (req: Request, res: Response, next: NextFunction) => {
+    forgotPassword(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/reset-password:
+ *   post:
+ *     summary: Reset password with a reset token
+ *     tags: [Authentication]
+ *     description: Tokens expire after 1 hour and can only be used once. All sessions are revoked.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post(
+  '/reset-password',
+  [
+    body('token').not().isEmpty().withMessage('Token is required'),
+    passwordPolicyValidator()
+  ],
+  (req: Request, res: Response, next: NextFunction) => {
+    resetPassword(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/verify-email:
+ *   post:
+ *     summary: Verify email address
+ *     tags: [Authentication]
+ *     description: Tokens expire after 24 hours and can only be used once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post(
+  '/verify-email',
+  [body('token').not().isEmpty().withMessage('Token is required')],
+  (req: Request, res: Response, next: NextFunction) => {
+    verifyEmail(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/resend-verification:
+ *   post:
+ *     summary: Send a new email verification link
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Verification link sent if the email is unverified
+ *       400:
+ *         description: Bad request
+ */
+router.post(
+  '/resend-verification',
+  [body('email').isEmail().withMessage('Please include a valid email')],
+  (req: Request, res: Response, next: NextFunction) => {
+    resendVerification(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/admin-invites:
+ *   post:
+ *     summary: Invite a new administrator
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Emails a single-use invite link. Invites expire after ADMIN_INVITE_EXPIRE_HOURS (default 48).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Invite sent
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *       409:
+ *         description: A user with this email already exists
+ */
+router.post(
+  '/admin-invites',
+  protect,
+  authorize('admin'),
+  [body('email').isEmail().withMessage('Please include a valid email')],
+  (req: Request, res: Response, next: NextFunction) => {
+    inviteAdmin(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/unlock-account:
+ *   post:
+ *     summary: Unlock an account after failed logins
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Clears the failed login count and any delay or lockout for the account.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *               principal:
+ *                 type: string
+ *                 enum: [user, worker]
+ *                 default: user
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     email:
+ *                       type: string
+ *                     principal:
+ *                       type: string
+ *                     hadFailures:
+ *                       type: boolean
+ *                       description: Whether any failed logins were recorded for the account
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin only
+ */
+router.post(
+  '/unlock-account',
+  protect,
+  authorize('admin'),
+  [
+    body('email').isEmail().withMessage('Please include a valid email'),
+    body('principal')
+      .optional()
+      .isIn(['user', 'worker'])
+      .withMessage('Principal must be either user or worker')
+  ],
+  (req: Request, res: Response, next: NextFunction) => {
+    unlockLogin(req, res, next);
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/admin-invites/accept:
+ *   post:
+ *     summary: Accept an admin invite
+ *     tags: [Authentication]
+ *     description: Creates the administrator account for the invited email and logs it in.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - name
+ *               - phone
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               identityNumber:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Admin account created. Admins must enrol two-factor authentication, so a challenge is returned instead of tokens.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorChallenge'
+ *       400:
+ *         description: Invalid or expired invite
+ *       409:
+ *         description: A user with this email already exists
+ */
+router.post(
+  '/admin-invites/accept',
+  [
+    body('token').not().isEmpty().withMessage('Token is required'),
+    body('name').not().isEmpty().withMessage('Name is required'),
+    body('phone').not().isEmpty().withMessage('Phone number is required'),
+    passwordPolicyValidator()
+  ],
+  (req: Request, res: Response, next: NextFunction) => {
+    acceptInvite(req, res, next);
   }
 );
 
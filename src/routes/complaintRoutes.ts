@@ -7,12 +7,17 @@ import {
   createComplaint,
   updateComplaint,
   deleteComplaint,
+  getDeletedComplaints,
+  restoreComplaint,
   addResponse,
   addSampleComplaints,
-  getComplaintsStats
+  getComplaintsStats,
+  refundComplaint
 } from '../controllers/complaintController';
 
 import { protect, authorize } from '../middleware/auth';
+import { allowFields } from '../middleware/fieldPolicy';
+import { COMPLAINT_WRITE_POLICY } from '../config/writePolicies';
 
 const router: Router = express.Router();
 
@@ -168,6 +173,87 @@ router.get('/', authorize('admin'), getComplaints);
  */
 router.get('/stats', authorize('admin'), getComplaintsStats);
 
+/**
+ * @swagger
+ * /api/v1/complaints/deleted:
+ *   get:
+ *     summary: Get deleted complaints (Admin only)
+ *     tags: [Complaints]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Complaints in the trash, most recently deleted first. They can be restored until the purge
+ *       job anonymises or removes them after SOFT_DELETE_RETENTION_DAYS.
+ *     parameters:
+ *       - in: query
+ *         name: deletedBy
+ *         schema:
+ *           type: string
+ *         description: Only records deleted by this account
+ *       - in: query
+ *         name: deletedAt[from]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: deletedAt[to]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [deletedAt, createdAt]
+ *           default: deletedAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of deleted complaints
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Complaint'
+ *                       - $ref: '#/components/schemas/SoftDeleteFields'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/deleted', authorize('admin'), getDeletedComplaints);
+
 /**
 * @swagger
  * /api/v1/complaints/my-complaints:
@@ -448,10 +534,13 @@ router.post(
  *         description: Forbidden - Admin access required
  *       404:
  *         description: Complaint not found
+ *       422:
+ *         description: The body contains fields that can never be updated here; errors.fields lists them
  */
 router.put(
   '/:id',
   authorize('admin'),
+  allowFields(COMPLAINT_WRITE_POLICY),
   [
     body('title')
       .optional()
@@ -500,6 +589,60 @@ router.put(
   updateComplaint
 );
 
+/**
+ * @swagger
+ * /api/v1/complaints/{id}/refund:
+ *   post:
+ *     summary: Refund the transfer of a resolved complaint (Admin only)
+ *     tags: [Complaints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to refund, defaults to the remaining captured amount
+ *               reason:
+ *                 type: string
+ *                 description: Defaults to the complaint resolution
+ *     responses:
+ *       201:
+ *         description: Refund issued successfully
+ *       400:
+ *         description: Invalid refund amount
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Complaint not found
+ *       409:
+ *         description: Complaint is not resolved or transfer is not paid
+ */
+router.post(
+  '/:id/refund',
+  authorize('admin'),
+  [
+    body('amount')
+      .optional()
+      .isFloat({ gt: 0 })
+      .withMessage('Amount must be a positive number'),
+    body('reason')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot be more than 500 characters')
+  ],
+  refundComplaint
+);
+
 /**
  * @swagger
  * /api/v1/complaints/{id}:
@@ -516,7 +659,7 @@ router.put(
  *           type: string
  *     responses:
  *       200:
- *         description: Complaint deleted successfully
+ *         description: Complaint moved to the trash
  *         content:
  *           application/json:
  *             schema:
@@ -535,6 +678,43 @@ router.put(
  */
 router.delete('/:id', authorize('admin'), deleteComplaint);
 
+/**
+ * @swagger
+ * /api/v1/complaints/{id}/restore:
+ *   put:
+ *     summary: Restore a deleted complaint (Admin only)
+ *     tags: [Complaints]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Complaint restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Complaint'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: No deleted complaint with this id
+ *       409:
+ *         description: The complaint was already anonymised by the purge job
+ */
+router.put('/:id/restore', authorize('admin'), restoreComplaint);
+
 /**
  * @swagger
  * /api/v1/complaints/add-samples:
@@ -9,6 +9,8 @@ import {
 	deleteNotification,
 	markAsRead,
   markAllAsRead,
+	getUnreadCount,
+	getNotificationDeliveries,
 } from "../controllers/notificationController";
 
 import { protect, authorize } from "../middleware/auth";
@@ -59,6 +61,12 @@ router.use(protect);
  *           type: string
  *           format: date-time
  *           description: When this notification expires (default 30 days)
+ *         template:
+ *           type: string
+ *           description: >
+ *             Template a system notification was rendered from (e.g. transfer_assigned, transfer_delayed,
+ *             complaint_resolved). Each recipient gets their own copy in their preferredLang with dates
+ *             in their timeFormat and region.
  *         readBy:
  *           type: array
  *           items:
@@ -70,6 +78,40 @@ router.use(protect);
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     NotificationDelivery:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         notificationId:
+ *           type: string
+ *         recipientId:
+ *           type: object
+ *           description: Recipient user or worker (name, email, phone)
+ *         recipientModel:
+ *           type: string
+ *           enum: [User, Worker]
+ *         channel:
+ *           type: string
+ *           enum: [email, sms, call]
+ *         address:
+ *           type: string
+ *           description: Email address or phone number used
+ *         status:
+ *           type: string
+ *           enum: [pending, sent, failed, skipped]
+ *         attempts:
+ *           type: integer
+ *         maxAttempts:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         lastError:
+ *           type: string
+ *         sentAt:
+ *           type: string
+ *           format: date-time
  */
 
 /**
@@ -91,6 +133,17 @@ router.use(protect);
  *         schema:
  *           type: boolean
  *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, expiresAt, type]
+ *           default: createdAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -98,6 +151,13 @@ router.use(protect);
  *         name: limit
  *         schema:
  *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from pagination.nextCursor. Send an empty value to start cursor pagination; page is ignored when set.
  *       - in: query
  *         name: search
  *         schema:
@@ -115,11 +175,13 @@ router.use(protect);
  *                 count:
  *                   type: integer
  *                 pagination:
- *                   type: object
+ *                   $ref: '#/components/schemas/ListPagination'
  *                 data:
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Notification'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
  *       401:
  *         description: Not authorized
  *       403:
@@ -207,6 +269,37 @@ router.patch('/mark-all-read', markAllAsRead);
  */
 router.get("/my-notifications", getMyNotifications);
 
+/**
+ * @swagger
+ * /api/v1/notifications/unread-count:
+ *   get:
+ *     summary: Get the number of unread notifications
+ *     description: >
+ *       Counts unexpired global and targeted notifications the user has not read. Connected sockets
+ *       also receive the count as a notification:unreadCount event whenever it changes.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread notification count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: integer
+ *       401:
+ *         description: Not authorized
+ */
+router.get("/unread-count", getUnreadCount);
+
 /**
  * @swagger
  * /api/v1/notifications/{id}:
@@ -240,6 +333,61 @@ router.get("/my-notifications", getMyNotifications);
  */
 router.get("/:id", getNotification);
 
+/**
+ * @swagger
+ * /api/v1/notifications/{id}/deliveries:
+ *   get:
+ *     summary: Get email and SMS delivery status of a notification (Admin only)
+ *     description: >
+ *       Targeted notifications are sent over the channels each recipient chose in informationPreference.
+ *       Failed attempts are retried with backoff up to NOTIFICATION_MAX_ATTEMPTS times. Global notifications
+ *       are in-app only and have no deliveries.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery status per recipient and channel
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         pending:
+ *                           type: integer
+ *                         sent:
+ *                           type: integer
+ *                         failed:
+ *                           type: integer
+ *                         skipped:
+ *                           type: integer
+ *                     deliveries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/NotificationDelivery'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Notification not found
+ */
+router.get("/:id/deliveries", authorize("admin"), getNotificationDeliveries);
+
 /**
  * @swagger
  * /api/v1/notifications:
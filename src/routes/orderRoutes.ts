@@ -1,4 +1,5 @@
 import express from 'express';
+import cors from 'cors';
 import { body } from 'express-validator';
 import {
   getOrders,
@@ -7,7 +8,8 @@ import {
   createOrder,
   updateOrder,
   deleteOrder,
-  addSampleOrders
+  addSampleOrders,
+  updateMyOrderStatus
 } from '../controllers/orderController';
 import { protect, authorize } from '../middleware/auth';
 
@@ -62,11 +64,47 @@ router.use(protect);
  *         isBreakable:
  *           type: boolean
  *           description: Whether the item is breakable
+ *     OrderService:
+ *       type: object
+ *       properties:
+ *         serviceId:
+ *           type: string
+ *           description: ID of the booked service
+ *         name:
+ *           type: string
+ *           description: Service name at the time of ordering
+ *         price:
+ *           type: number
+ *           description: Service price at the time of ordering
+ *         quantity:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *     OrderStatusChange:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *           enum: [pending, in_progress, completed, cancelled]
+ *         to:
+ *           type: string
+ *           enum: [pending, in_progress, completed, cancelled]
+ *         changedBy:
+ *           type: string
+ *           description: ID of the admin or worker who changed the status
+ *         changedByRole:
+ *           type: string
+ *         reason:
+ *           type: string
+ *         changedAt:
+ *           type: string
+ *           format: date-time
  *     Order:
  *       type: object
  *       required:
  *         - userId
  *         - items
+ *         - services
  *         - totalAmount
  *         - scheduledDate
  *         - from
@@ -91,14 +129,23 @@ router.use(protect);
  *           items:
  *             $ref: '#/components/schemas/OrderItem'
  *           description: Array of items in the order
+ *         services:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/OrderService'
+ *           description: Services booked on the order
  *         status:
  *           type: string
  *           enum: [pending, in_progress, completed, cancelled]
  *           default: pending
  *           description: Current status of the order
+ *         statusHistory:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/OrderStatusChange'
  *         totalAmount:
  *           type: number
- *           description: Total amount of the order
+ *           description: Sum of service price times quantity, calculated by the server
  *         paymentStatus:
  *           type: string
  *           enum: [pending, paid, failed, refunded]
@@ -171,6 +218,8 @@ router.use(protect);
  *         name: sortBy
  *         schema:
  *           type: string
+ *           enum: [createdAt, updatedAt, scheduledDate, pickUpDate, totalAmount, status]
+ *           default: createdAt
  *       - in: query
  *         name: order
  *         schema:
@@ -184,6 +233,13 @@ router.use(protect);
  *         name: limit
  *         schema:
  *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from pagination.nextCursor. Send an empty value to start cursor pagination; page is ignored when set.
  *       - in: query
  *         name: search
  *         schema:
@@ -202,6 +258,10 @@ router.use(protect);
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Order'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
  *       401:
  *         description: Not authorized
  *       403:
@@ -285,7 +345,7 @@ router.get('/:id', getOrder);
  *             type: object
  *             required:
  *               - items
- *               - totalAmount
+ *               - services
  *               - scheduledDate
  *               - from
  *               - to
@@ -310,8 +370,20 @@ router.get('/:id', getOrder);
  *                       type: array
  *                     isBreakable:
  *                       type: boolean
- *               totalAmount:
- *                 type: number
+ *               services:
+ *                 type: array
+ *                 description: Services to book. The total is calculated from each service's price.
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - serviceId
+ *                   properties:
+ *                     serviceId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *                       default: 1
  *               scheduledDate:
  *                 type: string
  *                 format: date-time
@@ -334,8 +406,6 @@ router.get('/:id', getOrder);
  *               pickUpTime:
  *                 type: string
  *                 description: Time of pickup
- *               workerId:
- *                 type: string
  *               complaintId:
  *                 type: string
  *     responses:
@@ -354,6 +424,8 @@ router.get('/:id', getOrder);
  *         description: Bad request
  *       401:
  *         description: Not authorized
+ *       404:
+ *         description: Service not found
  */
 router.post(
   '/',
@@ -387,11 +459,16 @@ router.post(
     body('items.*.isBreakable')
       .isBoolean()
       .withMessage('isBreakable must be a boolean'),
-    body('totalAmount')
-      .isNumeric()
-      .withMessage('Total amount must be a number')
-      .isFloat({ min: 0 })
-      .withMessage('Total amount cannot be negative'),
+    body('services')
+      .isArray({ min: 1 })
+      .withMessage('At least one service is required'),
+    body('services.*.serviceId')
+      .isMongoId()
+      .withMessage('Invalid service ID'),
+    body('services.*.quantity')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Quantity must be at least 1'),
     body('scheduledDate')
       .isISO8601()
       .withMessage('Scheduled date must be a valid date'),
@@ -421,10 +498,6 @@ router.post(
       .withMessage('Pick up time is required')
       .isString()
       .withMessage('Pick up time must be a string'),
-    body('workerId')
-      .optional()
-      .isMongoId()
-      .withMessage('Invalid worker ID'),
     body('complaintId')
       .optional()
       .isMongoId()
@@ -457,9 +530,24 @@ router.post(
  *               status:
  *                 type: string
  *                 enum: [pending, in_progress, completed, cancelled]
- *               paymentStatus:
+ *                 description: >
+ *                   Must follow the allowed transitions: pending -> in_progress or cancelled,
+ *                   in_progress -> completed or cancelled. Completed and cancelled are final.
+ *               statusReason:
  *                 type: string
- *                 enum: [pending, paid, failed, refunded]
+ *                 maxLength: 500
+ *                 description: Optional reason recorded in the status history
+ *               services:
+ *                 type: array
+ *                 description: Replaces the booked services and recalculates the total (only before payment)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     serviceId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
  *               workerId:
  *                 type: string
  *               complaintId:
@@ -496,16 +584,6 @@ router.post(
  *               pickUpTime:
  *                 type: string
  *                 description: Time of pickup
- *               rating:
- *                 type: object
- *                 properties:
- *                   rating:
- *                     type: number
- *                     minimum: 1
- *                     maximum: 5
- *                   comment:
- *                     type: string
- *                     maxLength: 500
  *     responses:
  *       200:
  *         description: Order updated successfully
@@ -525,7 +603,9 @@ router.post(
  *       403:
  *         description: Forbidden - Admin access required
  *       404:
- *         description: Order not found
+ *         description: Order or service not found
+ *       409:
+ *         description: Illegal status transition or services changed after payment
  */
 router.put(
   '/:id',
@@ -535,10 +615,23 @@ router.put(
       .optional()
       .isIn(['pending', 'in_progress', 'completed', 'cancelled'])
       .withMessage('Invalid status'),
-    body('paymentStatus')
+    body('statusReason')
       .optional()
-      .isIn(['pending', 'paid', 'failed', 'refunded'])
-      .withMessage('Invalid payment status'),
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Status reason cannot be more than 500 characters'),
+    body('services')
+      .optional()
+      .isArray({ min: 1 })
+      .withMessage('At least one service is required'),
+    body('services.*.serviceId')
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid service ID'),
+    body('services.*.quantity')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Quantity must be at least 1'),
     body('workerId')
       .optional()
       .isMongoId()
@@ -610,6 +703,72 @@ router.put(
   updateOrder
 );
 
+/**
+ * @swagger
+ * /api/v1/orders/{id}/status:
+ *   put:
+ *     summary: Update the status of an order assigned to the logged-in worker
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Workers can only move their own assigned orders to in_progress or completed.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [in_progress, completed]
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Order status updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Not a worker or not assigned to this order
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Illegal status transition
+ */
+router.put(
+  '/:id/status',
+  [
+    body('status')
+      .isIn(['in_progress', 'completed'])
+      .withMessage('Status must be in_progress or completed'),
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot be more than 500 characters')
+  ],
+  updateMyOrderStatus
+);
+
 /**
  * @swagger
  * /api/v1/orders/{id}:
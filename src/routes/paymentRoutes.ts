@@ -0,0 +1,241 @@
+import express from 'express';
+import { body } from 'express-validator';
+import cors from 'cors';
+import {
+  createTransferPaymentIntent,
+  getTransferPayments,
+  refundTransfer,
+  paymentWebhook
+} from '../controllers/paymentController';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+router.options('*', cors());
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Payment:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         transferId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         kind:
+ *           type: string
+ *           enum: [intent, capture, failure, refund]
+ *           description: Ledger entry type
+ *         amount:
+ *           type: number
+ *         currency:
+ *           type: string
+ *         provider:
+ *           type: string
+ *           description: Payment provider name (local for the development fake)
+ *         providerRef:
+ *           type: string
+ *           description: Provider reference of the intent or refund
+ *         intentRef:
+ *           type: string
+ *           description: Intent settled by this entry
+ *         duplicateOf:
+ *           type: string
+ *           description: Capture that already settled the transfer, set on a second charge that needs a refund
+ *         complaintId:
+ *           type: string
+ *           description: Complaint a refund was issued for
+ *         reason:
+ *           type: string
+ *         createdBy:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Payment provider callback
+ *     tags: [Payments]
+ *     security: []
+ *     description: >
+ *       Records a capture or failure against a payment intent and moves the transfer's payment status.
+ *       A capture on a transfer that was already captured is recorded with duplicateOf set and does not change the status.
+ *       The local provider expects an HMAC-SHA256 of the raw body (keyed with PAYMENT_WEBHOOK_SECRET) in the x-local-signature header.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: local
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - providerRef
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [payment.succeeded, payment.failed]
+ *               providerRef:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 description: Must match the payment intent amount when given
+ *               currency:
+ *                 type: string
+ *                 description: Must match the payment intent currency when given
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Webhook processed
+ *       400:
+ *         description: Invalid payload, or amount or currency differ from the payment intent
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown provider or payment intent
+ *       409:
+ *         description: Invalid payment status transition
+ */
+router.post('/webhooks/:provider', paymentWebhook);
+
+router.use(protect);
+
+/**
+ * @swagger
+ * /api/v1/payments/transfers/{transferId}:
+ *   get:
+ *     summary: Get the payment ledger of a transfer
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transferId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment ledger entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 paymentStatus:
+ *                   type: string
+ *                   enum: [pending, paid, failed, refunded]
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Payment'
+ *       403:
+ *         description: Not authorized to access this transfer
+ *       404:
+ *         description: Transfer not found
+ */
+router.get('/transfers/:transferId', getTransferPayments);
+
+/**
+ * @swagger
+ * /api/v1/payments/transfers/{transferId}/intent:
+ *   post:
+ *     summary: Start a payment for a transfer
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transferId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Payment intent created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     payment:
+ *                       $ref: '#/components/schemas/Payment'
+ *                     clientSecret:
+ *                       type: string
+ *       403:
+ *         description: Not authorized to pay for this transfer
+ *       404:
+ *         description: Transfer not found
+ *       409:
+ *         description: Transfer is already paid, refunded or cancelled
+ */
+router.post('/transfers/:transferId/intent', createTransferPaymentIntent);
+
+/**
+ * @swagger
+ * /api/v1/payments/transfers/{transferId}/refund:
+ *   post:
+ *     summary: Refund a paid transfer (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transferId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to refund, defaults to the remaining captured amount
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Refund issued
+ *       400:
+ *         description: Invalid refund amount
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       409:
+ *         description: Transfer is not paid
+ */
+router.post(
+  '/transfers/:transferId/refund',
+  authorize('admin'),
+  [
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be a positive number'),
+    body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason cannot be more than 500 characters')
+  ],
+  refundTransfer
+);
+
+export default router;
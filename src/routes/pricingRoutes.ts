@@ -0,0 +1,168 @@
+import express from 'express';
+import { body } from 'express-validator';
+import cors from 'cors';
+import { getPricing, updatePricing } from '../controllers/pricingController';
+import { protect, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+router.options('*', cors());
+
+router.use(protect);
+router.use(authorize('admin'));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RouteRate:
+ *       type: object
+ *       required:
+ *         - from
+ *         - to
+ *         - fee
+ *       properties:
+ *         from:
+ *           type: string
+ *           description: Route origin (matched case-insensitively, in either direction)
+ *         to:
+ *           type: string
+ *           description: Route destination
+ *         fee:
+ *           type: number
+ *           description: Flat fee for this route
+ *     PricingConfig:
+ *       type: object
+ *       properties:
+ *         baseFare:
+ *           type: number
+ *           description: Flat fare added to every transfer
+ *         perItemFee:
+ *           type: number
+ *           description: Fee per item
+ *         perKgRate:
+ *           type: number
+ *           description: Fee per kilogram of total weight
+ *         fragileItemFee:
+ *           type: number
+ *           description: Extra fee per breakable item
+ *         defaultRouteFee:
+ *           type: number
+ *           description: Route fee when no route rate matches
+ *         routeRates:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/RouteRate'
+ *         rushWindowHours:
+ *           type: number
+ *           description: Pickups sooner than this many hours are rush pickups
+ *         rushSurchargePercent:
+ *           type: number
+ *           description: Rush surcharge as a percentage of the subtotal
+ *         nightStartHour:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 23
+ *         nightEndHour:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 23
+ *         nightSurchargePercent:
+ *           type: number
+ *           description: Night surcharge as a percentage of the subtotal
+ *         updatedBy:
+ *           type: string
+ *           description: ID of the admin who last changed the rates
+ */
+
+/**
+ * @swagger
+ * /api/v1/pricing:
+ *   get:
+ *     summary: Get pricing rate tables (Admin only)
+ *     tags: [Pricing]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current pricing configuration
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PricingConfig'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/', getPricing);
+
+/**
+ * @swagger
+ * /api/v1/pricing:
+ *   put:
+ *     summary: Update pricing rate tables (Admin only)
+ *     tags: [Pricing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PricingConfig'
+ *     responses:
+ *       200:
+ *         description: Pricing updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PricingConfig'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       422:
+ *         description: Validation error
+ */
+router.put(
+  '/',
+  [
+    body([
+      'baseFare',
+      'perItemFee',
+      'perKgRate',
+      'fragileItemFee',
+      'defaultRouteFee',
+      'rushWindowHours',
+      'rushSurchargePercent',
+      'nightSurchargePercent'
+    ])
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Rates must be non-negative numbers'),
+    body(['nightStartHour', 'nightEndHour'])
+      .optional()
+      .isInt({ min: 0, max: 23 })
+      .withMessage('Night hours must be between 0 and 23'),
+    body('routeRates').optional().isArray().withMessage('Route rates must be an array'),
+    body('routeRates.*.from').notEmpty().withMessage('Route origin is required'),
+    body('routeRates.*.to').notEmpty().withMessage('Route destination is required'),
+    body('routeRates.*.fee')
+      .isFloat({ min: 0 })
+      .withMessage('Route fee must be a non-negative number')
+  ],
+  updatePricing
+);
+
+export default router;
@@ -0,0 +1,113 @@
+import express from "express";
+import cors from "cors";
+import { query } from "express-validator";
+import { search } from "../controllers/searchController";
+import { protect, authorize } from "../middleware/auth";
+import { MAX_SEARCH_LENGTH } from "../utils/listQuery";
+
+const router = express.Router();
+
+router.options("*", cors());
+
+router.use(protect);
+router.use(authorize("admin"));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SearchHit:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [user, worker, transfer, complaint]
+ *           description: Collection the hit comes from
+ *         id:
+ *           type: string
+ *           description: ID of the matching document
+ *         score:
+ *           type: number
+ *           description: Text relevance score, higher is better
+ *         title:
+ *           type: string
+ *           description: Short label for the hit
+ *         subtitle:
+ *           type: string
+ *           description: Extra details for the hit
+ */
+
+/**
+ * @swagger
+ * /api/v1/search:
+ *   get:
+ *     summary: Search across users, workers, transfers and complaints (Admin only)
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Full-text search using MongoDB text indexes. Matches user and worker names, emails and phones,
+ *       transfer item names, flight numbers and locations, and complaint titles and descriptions.
+ *       Hits from all collections are ranked together by relevance.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *       - in: query
+ *         name: types
+ *         schema:
+ *           type: string
+ *         description: Comma-separated subset of user, worker, transfer, complaint
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Ranked search hits
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 count:
+ *                   type: integer
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SearchHit'
+ *       400:
+ *         description: Missing or too long search term
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       422:
+ *         description: Validation error
+ */
+router.get(
+	"/",
+	[
+		query("q")
+			.isString()
+			.trim()
+			.notEmpty()
+			.withMessage("Search term is required")
+			.isLength({ max: MAX_SEARCH_LENGTH })
+			.withMessage(`Search term cannot be longer than ${MAX_SEARCH_LENGTH} characters`),
+		query("limit")
+			.optional()
+			.isInt({ min: 1, max: 50 })
+			.withMessage("Limit must be between 1 and 50"),
+	],
+	search
+);
+
+export default router;
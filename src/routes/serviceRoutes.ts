@@ -0,0 +1,441 @@
+import express from "express";
+import cors from "cors";
+import { body } from "express-validator";
+import {
+	getServices,
+	getArchivedServices,
+	getService,
+	createService,
+	updateService,
+	archiveService,
+	restoreService,
+} from "../controllers/serviceController";
+import { protect, authorize } from "../middleware/auth";
+
+const router = express.Router();
+
+router.options("*", cors());
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Service:
+ *       type: object
+ *       required:
+ *         - name
+ *         - description
+ *         - price
+ *         - duration
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Auto-generated service ID
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           description: Name of the service
+ *         description:
+ *           type: string
+ *           maxLength: 1000
+ *           description: Description of the service
+ *         price:
+ *           type: number
+ *           minimum: 0
+ *           description: Price charged per unit of the service
+ *         duration:
+ *           type: number
+ *           minimum: 1
+ *           description: Duration of the service in minutes
+ *         isArchived:
+ *           type: boolean
+ *           default: false
+ *           description: Archived services cannot be booked but remain linked to past orders
+ *         archivedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date when the service was archived
+ *         archivedBy:
+ *           type: string
+ *           description: ID of the admin who archived the service
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date when the service was created
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date when the service was last updated
+ */
+
+/**
+ * @swagger
+ * /api/v1/services:
+ *   get:
+ *     summary: Get active services
+ *     tags: [Services]
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive match on name or description
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [name, price, duration, createdAt]
+ *           default: name
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from pagination.nextCursor. Send an empty value to start cursor pagination; page is ignored when set.
+ *     responses:
+ *       200:
+ *         description: List of active services
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Service'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
+ */
+router.get("/", getServices);
+
+/**
+ * @swagger
+ * /api/v1/services/archived:
+ *   get:
+ *     summary: Get archived services (Admin only)
+ *     tags: [Services]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Accepts the same search, price, sorting and pagination parameters as the active service list.
+ *     responses:
+ *       200:
+ *         description: List of archived services
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Service'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get("/archived", protect, authorize("admin"), getArchivedServices);
+
+/**
+ * @swagger
+ * /api/v1/services/{id}:
+ *   get:
+ *     summary: Get service by ID
+ *     tags: [Services]
+ *     description: Archived services are still returned so past orders can show what was booked.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Service details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Service'
+ *       404:
+ *         description: Service not found
+ */
+router.get("/:id", getService);
+
+router.use(protect);
+router.use(authorize("admin"));
+
+/**
+ * @swagger
+ * /api/v1/services:
+ *   post:
+ *     summary: Create new service (Admin only)
+ *     tags: [Services]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - description
+ *               - price
+ *               - duration
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *               price:
+ *                 type: number
+ *                 minimum: 0
+ *               duration:
+ *                 type: number
+ *                 minimum: 1
+ *                 description: Duration in minutes
+ *     responses:
+ *       201:
+ *         description: Service created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Service'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       422:
+ *         description: Validation error
+ */
+router.post(
+	"/",
+	[
+		body("name")
+			.isString()
+			.trim()
+			.notEmpty()
+			.withMessage("Service name is required")
+			.isLength({ max: 100 })
+			.withMessage("Service name cannot be more than 100 characters"),
+		body("description")
+			.isString()
+			.trim()
+			.notEmpty()
+			.withMessage("Service description is required")
+			.isLength({ max: 1000 })
+			.withMessage("Service description cannot be more than 1000 characters"),
+		body("price")
+			.isFloat({ min: 0 })
+			.withMessage("Price must be a number that is not negative"),
+		body("duration")
+			.isInt({ min: 1 })
+			.withMessage("Duration must be at least 1 minute"),
+	],
+	createService
+);
+
+/**
+ * @swagger
+ * /api/v1/services/{id}:
+ *   put:
+ *     summary: Update service (Admin only)
+ *     tags: [Services]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Price changes only apply to new orders; existing orders keep the price they were booked at.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *               price:
+ *                 type: number
+ *                 minimum: 0
+ *               duration:
+ *                 type: number
+ *                 minimum: 1
+ *     responses:
+ *       200:
+ *         description: Service updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Service'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Service not found
+ *       422:
+ *         description: Validation error
+ */
+router.put(
+	"/:id",
+	[
+		body("name")
+			.optional()
+			.isString()
+			.trim()
+			.notEmpty()
+			.withMessage("Service name cannot be empty")
+			.isLength({ max: 100 })
+			.withMessage("Service name cannot be more than 100 characters"),
+		body("description")
+			.optional()
+			.isString()
+			.trim()
+			.notEmpty()
+			.withMessage("Service description cannot be empty")
+			.isLength({ max: 1000 })
+			.withMessage("Service description cannot be more than 1000 characters"),
+		body("price")
+			.optional()
+			.isFloat({ min: 0 })
+			.withMessage("Price must be a number that is not negative"),
+		body("duration")
+			.optional()
+			.isInt({ min: 1 })
+			.withMessage("Duration must be at least 1 minute"),
+	],
+	updateService
+);
+
+/**
+ * @swagger
+ * /api/v1/services/{id}:
+ *   delete:
+ *     summary: Archive service (Admin only)
+ *     tags: [Services]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Soft-deletes the service. It disappears from the public catalog and can no longer be booked,
+ *       but orders that reference it keep working.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Service archived successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Service'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Service not found
+ */
+router.delete("/:id", archiveService);
+
+/**
+ * @swagger
+ * /api/v1/services/{id}/restore:
+ *   put:
+ *     summary: Restore an archived service (Admin only)
+ *     tags: [Services]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Service restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Service'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Service not found
+ */
+router.put("/:id/restore", restoreService);
+
+export default router;
@@ -7,13 +7,26 @@ import {
 	createTransfer,
 	updateTransfer,
 	deleteTransfer,
+	getDeletedTransfers,
+	restoreTransfer,
 	addSampleTransfers,
 	getTransfersStats,
+	assignTransfer,
+	rateTransfer,
+	getTransferQuote,
+	checkTransferFlights,
+	getTransferTrail,
 } from "../controllers/transferController";
 import { protect, authorize } from "../middleware/auth";
+import { FLIGHT_NUMBER_PATTERN, normalizeFlightNumber } from "../models/Transfer";
+import { isValidTimeZone } from "../utils/timezone";
+import { allowFields } from "../middleware/fieldPolicy";
+import { TRANSFER_WRITE_POLICY } from "../config/writePolicies";
 
 const router = express.Router();
 
+const PICK_UP_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
 // Apply protect middleware to all routes
 //router.use(protect);
 router.options('*', cors()); // أضف هذا السطر
@@ -43,6 +56,27 @@ router.use(protect);
  *           type: string
  *           format: date-time
  *           description: Date when the rating was created
+ *     TransferStatusChange:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *           enum: [pending, in_progress, completed, cancelled]
+ *         to:
+ *           type: string
+ *           enum: [pending, in_progress, completed, cancelled]
+ *         changedBy:
+ *           type: string
+ *           description: ID of the user or worker who made the change
+ *         changedByRole:
+ *           type: string
+ *           description: Role of the actor at the time of the change
+ *         reason:
+ *           type: string
+ *           maxLength: 500
+ *         changedAt:
+ *           type: string
+ *           format: date-time
  *     TransferItem:
  *       type: object
  *       required:
@@ -99,6 +133,11 @@ router.use(protect);
  *           enum: [pending, in_progress, completed, cancelled]
  *           default: pending
  *           description: Current status of the transfer
+ *         statusHistory:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TransferStatusChange'
+ *           description: Audit trail of status transitions
  *         totalAmount:
  *           type: number
  *           description: Total amount of the transfer
@@ -106,7 +145,7 @@ router.use(protect);
  *           type: string
  *           enum: [pending, paid, failed, refunded]
  *           default: pending
- *           description: Payment status of the transfer
+ *           description: Payment status of the transfer, driven by the payments API
  *         scheduledDate:
  *           type: string
  *           format: date-time
@@ -117,19 +156,31 @@ router.use(protect);
  *         to:
  *           type: string
  *           description: Delivery location
+ *         toCoordinates:
+ *           $ref: '#/components/schemas/Coordinates'
  *         flightGate:
  *           type: string
  *           description: Flight gate number (optional)
  *         flightNumber:
  *           type: string
- *           description: Flight number (optional)
+ *           pattern: '^([A-Z0-9]{2}|[A-Z]{3})[0-9]{1,4}[A-Z]?$'
+ *           description: Flight number (optional), stored uppercase without spaces
  *         pickUpDate:
  *           type: string
  *           format: date
  *           description: Date of pickup
  *         pickUpTime:
  *           type: string
- *           description: Time of pickup
+ *           description: Local time of pickup (HH:mm) in pickUpTimezone
+ *         pickUpTimezone:
+ *           type: string
+ *           description: IANA time zone of the pickup location, defaults to DEFAULT_TIMEZONE
+ *         pickUpAt:
+ *           type: string
+ *           format: date-time
+ *           description: Pickup instant in UTC, derived from pickUpDate, pickUpTime and pickUpTimezone
+ *         flightStatus:
+ *           $ref: '#/components/schemas/FlightStatus'
  *         completedAt:
  *           type: string
  *           format: date-time
@@ -149,6 +200,88 @@ router.use(protect);
  *           type: string
  *           format: date-time
  *           description: Date when the transfer was last updated
+ *     Coordinates:
+ *       type: object
+ *       description: Destination coordinates, used for the live tracking ETA
+ *       properties:
+ *         lat:
+ *           type: number
+ *           minimum: -90
+ *           maximum: 90
+ *         lng:
+ *           type: number
+ *           minimum: -180
+ *           maximum: 180
+ *     TrailPoint:
+ *       type: object
+ *       properties:
+ *         lat:
+ *           type: number
+ *         lng:
+ *           type: number
+ *         accuracy:
+ *           type: number
+ *           description: Accuracy radius in meters
+ *         heading:
+ *           type: number
+ *           description: Degrees clockwise from north
+ *         speed:
+ *           type: number
+ *           description: Meters per second
+ *         recordedAt:
+ *           type: string
+ *           format: date-time
+ *     FlightStatus:
+ *       type: object
+ *       description: Last flight status seen by the flight-status provider
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [scheduled, delayed, cancelled, landed, unknown]
+ *         delayMinutes:
+ *           type: integer
+ *         originalPickUpAt:
+ *           type: string
+ *           format: date-time
+ *           description: Pickup instant before any delay was applied
+ *         provider:
+ *           type: string
+ *         checkedAt:
+ *           type: string
+ *           format: date-time
+ *     ListPagination:
+ *       type: object
+ *       description: >
+ *         Pagination details shared by all list endpoints. Page pagination returns total, page and pages;
+ *         cursor pagination returns nextCursor instead and skips counting.
+ *       properties:
+ *         limit:
+ *           type: integer
+ *         hasMore:
+ *           type: boolean
+ *         total:
+ *           type: integer
+ *         page:
+ *           type: integer
+ *         pages:
+ *           type: integer
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *     SoftDeleteFields:
+ *       type: object
+ *       description: Set on users, workers, transfers and complaints while they are in the trash
+ *       properties:
+ *         deletedAt:
+ *           type: string
+ *           format: date-time
+ *         deletedBy:
+ *           type: string
+ *           description: ID of the account that deleted the record
+ *         anonymisedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Set when the purge job removed personal data; the record can no longer be restored
  */
 
 /**
@@ -174,8 +307,10 @@ router.use(protect);
  *         name: sortBy
  *         schema:
  *           type: string
+ *           enum: [createdAt, updatedAt, scheduledDate, pickUpDate, totalAmount, status]
+ *           default: createdAt
  *       - in: query
- *         name: transfer
+ *         name: order
  *         schema:
  *           type: string
  *           enum: [asc, desc]
@@ -187,10 +322,22 @@ router.use(protect);
  *         name: limit
  *         schema:
  *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from pagination.nextCursor. Send an empty value to start cursor pagination; page is ignored when set.
  *       - in: query
  *         name: search
  *         schema:
  *           type: string
+ *         description: Matches item names, pickup and delivery locations
+ *       - in: query
+ *         name: workerId
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: List of all transfers
@@ -205,6 +352,10 @@ router.use(protect);
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Transfer'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
  *       401:
  *         description: Not authorized
  *       403:
@@ -280,11 +431,131 @@ router.get("/my-transfers", getMyTransfers);
  */
 router.get("/stats", authorize("admin"), getTransfersStats);
 
+/**
+ * @swagger
+ * /api/v1/transfers/deleted:
+ *   get:
+ *     summary: Get deleted transfers (Admin only)
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Transfers in the trash, most recently deleted first. They can be restored until the purge
+ *       job anonymises or removes them after SOFT_DELETE_RETENTION_DAYS.
+ *     parameters:
+ *       - in: query
+ *         name: deletedBy
+ *         schema:
+ *           type: string
+ *         description: Only records deleted by this account
+ *       - in: query
+ *         name: deletedAt[from]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: deletedAt[to]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [deletedAt, createdAt]
+ *           default: deletedAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of deleted transfers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Transfer'
+ *                       - $ref: '#/components/schemas/SoftDeleteFields'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get("/deleted", authorize("admin"), getDeletedTransfers);
+
+/**
+ * @swagger
+ * /api/v1/transfers/flight-status/check:
+ *   post:
+ *     summary: Check flight statuses now and reschedule delayed pickups (Admin only)
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Runs the same check as the background poller. Upcoming transfers with a flight number are
+ *       looked up with the configured flight-status provider; delayed pickups are moved and the
+ *       customer and worker are notified.
+ *     responses:
+ *       200:
+ *         description: Check summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     checked:
+ *                       type: integer
+ *                     rescheduled:
+ *                       type: integer
+ *                     cancelledFlights:
+ *                       type: integer
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.post("/flight-status/check", authorize("admin"), checkTransferFlights);
+
 /**
  * @swagger
  * /api/v1/transfers/{id}:
  *   get:
  *     summary: Get single transfer
+ *     description: Available to admins, the customer who booked the transfer and the assigned worker.
  *     tags: [Transfers]
  *     security:
  *       - bearerAuth: []
@@ -306,13 +577,70 @@ router.get("/stats", authorize("admin"), getTransfersStats);
  *                   type: boolean
  *                 data:
  *                   $ref: '#/components/schemas/Transfer'
+ *       400:
+ *         description: Invalid transfer ID
  *       401:
  *         description: Not authorized
+ *       403:
+ *         description: Not the transfer's customer or assigned worker
  *       404:
  *         description: Transfer not found
  */
 router.get("/:id", getTransfer);
 
+/**
+ * @swagger
+ * /api/v1/transfers/{id}/trail:
+ *   get:
+ *     summary: Get the GPS breadcrumb trail of a completed transfer
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Positions streamed by the worker over the updateWorkerLocation socket event, oldest first.
+ *       Available to admins, the customer and the assigned worker once the transfer is completed.
+ *       Positions are kept for LOCATION_RETENTION_DAYS.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Breadcrumb trail
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     transferId:
+ *                       type: string
+ *                     workerId:
+ *                       type: string
+ *                     completedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     points:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TrailPoint'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Not authorized to access this transfer
+ *       404:
+ *         description: Transfer not found
+ *       409:
+ *         description: Transfer is not completed yet
+ */
+router.get("/:id/trail", getTransferTrail);
+
 /**
  * @swagger
  * /api/v1/transfers:
@@ -329,7 +657,6 @@ router.get("/:id", getTransfer);
  *             type: object
  *             required:
  *               - items
- *               - totalAmount
  *               - scheduledDate
  *               - from
  *               - to
@@ -357,8 +684,6 @@ router.get("/:id", getTransfer);
  *                       description: Array of image URLs (required)
  *                     isBreakable:
  *                       type: boolean
- *               totalAmount:
- *                 type: number
  *               scheduledDate:
  *                 type: string
  *                 format: date-time
@@ -368,6 +693,8 @@ router.get("/:id", getTransfer);
  *               to:
  *                 type: string
  *                 description: Delivery location
+ *               toCoordinates:
+ *                 $ref: '#/components/schemas/Coordinates'
  *               flightGate:
  *                 type: string
  *                 description: Flight gate number (optional)
@@ -380,11 +707,13 @@ router.get("/:id", getTransfer);
  *                 description: Date of pickup
  *               pickUpTime:
  *                 type: string
- *                 description: Time of pickup
- *               workerId:
- *                 type: string
- *               complaintId:
+ *                 description: Time of pickup (HH:mm)
+ *               pickUpTimezone:
  *                 type: string
+ *                 description: IANA time zone of the pickup, e.g. Europe/Istanbul
+ *     description: >
+ *       The totalAmount is calculated by the pricing engine. Status, payment, assignment and rating
+ *       fields are set by the server; any client values are ignored.
  *     responses:
  *       201:
  *         description: Transfer created successfully
@@ -432,11 +761,6 @@ router.post(
 			.notEmpty()
 			.withMessage("Image URL cannot be empty"),
 		body("items.*.isBreakable").optional().isBoolean(),
-		body("totalAmount")
-			.isNumeric()
-			.withMessage("Total amount must be a number")
-			.isFloat({ min: 0 })
-			.withMessage("Total amount cannot be negative"),
 		body("scheduledDate")
 			.isISO8601()
 			.withMessage("Scheduled date must be a valid date"),
@@ -450,6 +774,14 @@ router.post(
 			.withMessage("To location is required")
 			.isString()
 			.withMessage("To location must be a string"),
+		body("toCoordinates.lat")
+			.if(body("toCoordinates").exists())
+			.isFloat({ min: -90, max: 90 })
+			.withMessage("Destination latitude must be between -90 and 90"),
+		body("toCoordinates.lng")
+			.if(body("toCoordinates").exists())
+			.isFloat({ min: -180, max: 180 })
+			.withMessage("Destination longitude must be between -180 and 180"),
 		body("flightGate")
 			.optional()
 			.isString()
@@ -457,29 +789,153 @@ router.post(
 		body("flightNumber")
 			.optional()
 			.isString()
-			.withMessage("Flight number must be a string"),
+			.withMessage("Flight number must be a string")
+			.customSanitizer(normalizeFlightNumber)
+			.matches(FLIGHT_NUMBER_PATTERN)
+			.withMessage("Flight number must be an airline code followed by 1-4 digits, e.g. TK1234"),
 		body("pickUpDate")
 			.isISO8601()
 			.withMessage("Pick up date must be a valid date"),
 		body("pickUpTime")
 			.notEmpty()
 			.withMessage("Pick up time is required")
-			.isString()
-			.withMessage("Pick up time must be a string"),
-		body("workerId").optional().isMongoId().withMessage("Invalid worker ID"),
-		body("complaintId")
+			.matches(PICK_UP_TIME_PATTERN)
+			.withMessage("Pick up time must be in HH:mm format"),
+		body("pickUpTimezone")
 			.optional()
-			.isMongoId()
-			.withMessage("Invalid complaint ID"),
+			.custom((value) => typeof value === "string" && isValidTimeZone(value))
+			.withMessage("Pick up timezone must be a valid IANA time zone, e.g. Europe/Istanbul"),
 	],
 	createTransfer
 );
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PriceQuote:
+ *       type: object
+ *       properties:
+ *         lines:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 enum: [base, items, weight, fragile, route, rush, night]
+ *               label:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *         subtotal:
+ *           type: number
+ *           description: Sum of base, item, weight, route and fragile fees
+ *         surcharges:
+ *           type: number
+ *           description: Rush and night surcharges
+ *         totalAmount:
+ *           type: number
+ */
+
+/**
+ * @swagger
+ * /api/v1/transfers/quote:
+ *   post:
+ *     summary: Get an itemised price quote before booking
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *               - from
+ *               - to
+ *               - pickUpDate
+ *               - pickUpTime
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - weight
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     weight:
+ *                       type: number
+ *                     isBreakable:
+ *                       type: boolean
+ *               from:
+ *                 type: string
+ *               to:
+ *                 type: string
+ *               pickUpDate:
+ *                 type: string
+ *                 format: date
+ *               pickUpTime:
+ *                 type: string
+ *                 description: Time of pickup (HH:mm)
+ *               pickUpTimezone:
+ *                 type: string
+ *                 description: IANA time zone of the pickup; the night surcharge uses this local time
+ *     responses:
+ *       200:
+ *         description: Price quote
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PriceQuote'
+ *       401:
+ *         description: Not authorized
+ *       422:
+ *         description: Validation error
+ */
+router.post(
+	"/quote",
+	[
+		body("items")
+			.isArray({ min: 1 })
+			.withMessage("At least one item is required"),
+		body("items.*.weight")
+			.isFloat({ min: 0 })
+			.withMessage("Item weight must be a non-negative number"),
+		body("items.*.isBreakable").optional().isBoolean(),
+		body("from").isString().notEmpty().withMessage("From location is required"),
+		body("to").isString().notEmpty().withMessage("To location is required"),
+		body("pickUpDate")
+			.isISO8601()
+			.withMessage("Pick up date must be a valid date"),
+		body("pickUpTime")
+			.matches(PICK_UP_TIME_PATTERN)
+			.withMessage("Pick up time must be in HH:mm format"),
+		body("pickUpTimezone")
+			.optional()
+			.custom((value) => typeof value === "string" && isValidTimeZone(value))
+			.withMessage("Pick up timezone must be a valid IANA time zone, e.g. Europe/Istanbul"),
+	],
+	getTransferQuote
+);
+
 /**
  * @swagger
  * /api/v1/transfers/{id}:
  *   put:
  *     summary: Update transfer (Admin only)
+ *     description: >
+ *       workerId cannot be changed here; assign a worker with POST /api/v1/transfers/{id}/assign,
+ *       which keeps worker load counts up to date and notifies the worker.
  *     tags: [Transfers]
  *     security:
  *       - bearerAuth: []
@@ -499,11 +955,11 @@ router.post(
  *               status:
  *                 type: string
  *                 enum: [pending, in_progress, completed, cancelled]
- *               paymentStatus:
- *                 type: string
- *                 enum: [pending, paid, failed, refunded]
- *               workerId:
+ *                 description: "Allowed transitions: pending -> in_progress | cancelled, in_progress -> completed | cancelled"
+ *               statusReason:
  *                 type: string
+ *                 maxLength: 500
+ *                 description: Optional reason recorded in the status history
  *               complaintId:
  *                 type: string
  *               items:
@@ -525,6 +981,8 @@ router.post(
  *               to:
  *                 type: string
  *                 description: Delivery location
+ *               toCoordinates:
+ *                 $ref: '#/components/schemas/Coordinates'
  *               flightGate:
  *                 type: string
  *                 description: Flight gate number (optional)
@@ -537,17 +995,10 @@ router.post(
  *                 description: Date of pickup
  *               pickUpTime:
  *                 type: string
- *                 description: Time of pickup
- *               rating:
- *                 type: object
- *                 properties:
- *                   rating:
- *                     type: number
- *                     minimum: 1
- *                     maximum: 5
- *                   comment:
- *                     type: string
- *                     maxLength: 500
+ *                 description: Time of pickup (HH:mm)
+ *               pickUpTimezone:
+ *                 type: string
+ *                 description: IANA time zone of the pickup
  *     responses:
  *       200:
  *         description: Transfer updated successfully
@@ -568,20 +1019,25 @@ router.post(
  *         description: Forbidden - Admin access required
  *       404:
  *         description: Transfer not found
+ *       409:
+ *         description: Illegal status transition
+ *       422:
+ *         description: Validation error, or the body contains fields that cannot be updated (errors.fields lists them)
  */
 router.put(
 	"/:id",
 	authorize("admin"),
+	allowFields(TRANSFER_WRITE_POLICY),
 	[
 		body("status")
 			.optional()
 			.isIn(["pending", "in_progress", "completed", "cancelled"])
 			.withMessage("Invalid status"),
-		body("paymentStatus")
+		body("statusReason")
 			.optional()
-			.isIn(["pending", "paid", "failed", "refunded"])
-			.withMessage("Invalid payment status"),
-		body("workerId").optional().isMongoId().withMessage("Invalid worker ID"),
+			.isString()
+			.isLength({ max: 500 })
+			.withMessage("Status reason cannot be more than 500 characters"),
 		body("complaintId")
 			.optional()
 			.isMongoId()
@@ -625,6 +1081,14 @@ router.put(
 			.optional()
 			.isString()
 			.withMessage("To location must be a string"),
+		body("toCoordinates.lat")
+			.if(body("toCoordinates").exists())
+			.isFloat({ min: -90, max: 90 })
+			.withMessage("Destination latitude must be between -90 and 90"),
+		body("toCoordinates.lng")
+			.if(body("toCoordinates").exists())
+			.isFloat({ min: -180, max: 180 })
+			.withMessage("Destination longitude must be between -180 and 180"),
 		body("flightGate")
 			.optional()
 			.isString()
@@ -632,19 +1096,170 @@ router.put(
 		body("flightNumber")
 			.optional()
 			.isString()
-			.withMessage("Flight number must be a string"),
+			.withMessage("Flight number must be a string")
+			.customSanitizer(normalizeFlightNumber)
+			.matches(FLIGHT_NUMBER_PATTERN)
+			.withMessage("Flight number must be an airline code followed by 1-4 digits, e.g. TK1234"),
 		body("pickUpDate")
 			.optional()
 			.isISO8601()
 			.withMessage("Pick up date must be a valid date"),
 		body("pickUpTime")
 			.optional()
-			.isString()
-			.withMessage("Pick up time must be a string"),
+			.matches(PICK_UP_TIME_PATTERN)
+			.withMessage("Pick up time must be in HH:mm format"),
+		body("pickUpTimezone")
+			.optional()
+			.custom((value) => typeof value === "string" && isValidTimeZone(value))
+			.withMessage("Pick up timezone must be a valid IANA time zone, e.g. Europe/Istanbul"),
 	],
 	updateTransfer
 );
 
+/**
+ * @swagger
+ * /api/v1/transfers/{id}/rating:
+ *   post:
+ *     summary: Rate a completed transfer
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Only the customer who owns the transfer can rate it, once, after it is completed.
+ *       The rating is added to the assigned worker's service ratings and the worker's
+ *       average rating and completed job count are recalculated.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: Transfer rated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Not the owning customer
+ *       404:
+ *         description: Transfer not found
+ *       409:
+ *         description: Transfer is not completed or has already been rated
+ *       422:
+ *         description: Validation error
+ */
+router.post(
+	"/:id/rating",
+	[
+		body("rating")
+			.isInt({ min: 1, max: 5 })
+			.withMessage("Rating must be an integer between 1 and 5"),
+		body("comment")
+			.optional()
+			.isString()
+			.isLength({ max: 500 })
+			.withMessage("Comment cannot be more than 500 characters"),
+	],
+	rateTransfer
+);
+
+/**
+ * @swagger
+ * /api/v1/transfers/{id}/assign:
+ *   post:
+ *     summary: Assign transfer to a worker (Admin only)
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Assigns the given worker, or picks one automatically when auto is true.
+ *       Auto-dispatch only considers available workers in the region (defaults to the customer's region),
+ *       requires the fragile_handling skill when any item is breakable, and prefers the lowest load, then the highest rating.
+ *       The worker and the transfer room receive a transferAssigned socket event.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               workerId:
+ *                 type: string
+ *                 description: Worker to assign (manual assignment)
+ *               auto:
+ *                 type: boolean
+ *                 description: Pick a worker automatically
+ *               region:
+ *                 type: string
+ *                 description: Region to dispatch in (auto mode only)
+ *     responses:
+ *       200:
+ *         description: Transfer assigned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Transfer'
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Transfer or worker not found
+ *       409:
+ *         description: Transfer cannot be assigned or no worker is available
+ */
+router.post(
+	"/:id/assign",
+	authorize("admin"),
+	[
+		body("workerId").optional().isMongoId().withMessage("Invalid worker ID"),
+		body("auto").optional().isBoolean().withMessage("Auto must be a boolean"),
+		body("region")
+			.optional()
+			.isString()
+			.withMessage("Region must be a string"),
+	],
+	assignTransfer
+);
+
 /**
  * @swagger
  * /api/v1/transfers/{id}:
@@ -661,7 +1276,7 @@ router.put(
  *           type: string
  *     responses:
  *       200:
- *         description: Transfer deleted successfully
+ *         description: Transfer moved to the trash
  *         content:
  *           application/json:
  *             schema:
@@ -680,6 +1295,43 @@ router.put(
  */
 router.delete("/:id", authorize("admin"), deleteTransfer);
 
+/**
+ * @swagger
+ * /api/v1/transfers/{id}/restore:
+ *   put:
+ *     summary: Restore a deleted transfer (Admin only)
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transfer restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: No deleted transfer with this id
+ *       409:
+ *         description: The transfer was already anonymised by the purge job
+ */
+router.put("/:id/restore", authorize("admin"), restoreTransfer);
+
 /**
  * @swagger
  * /api/v1/transfers/add-samples:
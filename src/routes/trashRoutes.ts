@@ -0,0 +1,53 @@
+import express from "express";
+import cors from "cors";
+import { purgeTrash } from "../controllers/trashController";
+import { protect, authorize } from "../middleware/auth";
+
+const router = express.Router();
+
+router.options("*", cors());
+
+router.use(protect);
+router.use(authorize("admin"));
+
+/**
+ * @swagger
+ * /api/v1/trash/purge:
+ *   post:
+ *     summary: Purge expired trash now (Admin only)
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Runs the retention purge that otherwise runs every SOFT_DELETE_PURGE_POLL_MINUTES. Users, workers,
+ *       transfers and complaints deleted more than SOFT_DELETE_RETENTION_DAYS ago are anonymised or removed,
+ *       depending on SOFT_DELETE_PURGE_MODE. Use it from a scheduler on serverless deployments.
+ *     responses:
+ *       200:
+ *         description: Number of records purged per collection
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     users:
+ *                       type: integer
+ *                     workers:
+ *                       type: integer
+ *                     transfers:
+ *                       type: integer
+ *                     complaints:
+ *                       type: integer
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.post("/purge", purgeTrash);
+
+export default router;
@@ -5,10 +5,16 @@ import {
   getUser,
   createUser,
   updateUser,
-  deleteUser
+  deleteUser,
+  getDeletedUsers,
+  restoreUser
 } from '../controllers/userController';
 
 import { protect, authorize } from '../middleware/auth';
+import { allowFields } from '../middleware/fieldPolicy';
+import { USER_WRITE_POLICY } from '../config/writePolicies';
+import { SUPPORTED_LANGUAGES } from '../services/notificationTemplates';
+import { passwordPolicyValidator } from '../utils/passwordPolicy';
 
 const router = express.Router();
 
@@ -45,7 +51,7 @@ router.use(protect);
  *         password:
  *           type: string
  *           format: password
- *           description: User's password (min 6 characters)
+ *           description: User's password, must satisfy the password policy
  *         identityNumber:
  *           type: string
  *           description: User's identity number (optional)
@@ -60,6 +66,7 @@ router.use(protect);
  *           description: User's role
  *         preferredLang:
  *           type: string
+ *           enum: [en, ar]
  *           default: en
  *           description: User's preferred language
  *         region:
@@ -101,6 +108,87 @@ router.use(protect);
  */
 router.get('/',authorize('admin'), getUsers);
 
+/**
+ * @swagger
+ * /api/v1/users/deleted:
+ *   get:
+ *     summary: Get deleted users (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Users in the trash, most recently deleted first. They can be restored until the purge
+ *       job anonymises or removes them after SOFT_DELETE_RETENTION_DAYS.
+ *     parameters:
+ *       - in: query
+ *         name: deletedBy
+ *         schema:
+ *           type: string
+ *         description: Only records deleted by this account
+ *       - in: query
+ *         name: deletedAt[from]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: deletedAt[to]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [deletedAt, createdAt]
+ *           default: deletedAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of deleted users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/User'
+ *                       - $ref: '#/components/schemas/SoftDeleteFields'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/deleted', authorize('admin'), getDeletedUsers);
+
 /**
  * @swagger
  * /api/v1/users/{id}:
@@ -163,9 +251,12 @@ router.get('/:id', getUser);
  *                 type: boolean
  *               role:
  *                 type: string
- *                 enum: [customer, admin]
+ *                 enum: [customer, worker]
+ *                 default: customer
+ *                 description: Admins are only added through admin invites
  *               preferredLang:
  *                 type: string
+ *                 enum: [en, ar]
  *                 default: en
  *               region:
  *                 type: string
@@ -192,18 +283,21 @@ router.get('/:id', getUser);
  */
 router.post(
   '/',
+  authorize('admin'),
   [
     body('name').not().isEmpty().withMessage('Name is required'),
     body('email').isEmail().withMessage('Please include a valid email'),
     body('phone').not().isEmpty().withMessage('Phone number is required'),
     body('informationPreference').not().isEmpty().isArray().withMessage('informationPreference is required, and must be an array of strings [email, sms, call]'),
-    body('password')
-      .isLength({ min: 6 })
-      .withMessage('Password must be at least 6 characters'),
+    passwordPolicyValidator(),
+    body('role')
+      .optional()
+      .isIn(['customer', 'worker'])
+      .withMessage('Role must be customer or worker; admins are added through an admin invite'),
     body('preferredLang')
       .optional()
-      .isString()
-      .withMessage('Preferred language must be a string'),
+      .isIn(SUPPORTED_LANGUAGES)
+      .withMessage(`Preferred language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`),
     body('region')
       .optional()
       .isString()
@@ -257,6 +351,7 @@ router.post(
  *                 enum: [customer, admin]
  *               preferredLang:
  *                 type: string
+ *                 enum: [en, ar]
  *                 default: en
  *               region:
  *                 type: string
@@ -276,18 +371,21 @@ router.post(
  *       401:
  *         description: Not authorized
  *       403:
- *         description: Forbidden. Only admin or the user themselves can update.
+ *         description: Forbidden. Only admin or the user themselves can update, and only the fields allowed for their role (errors.fields lists the others).
+ *       422:
+ *         description: The body contains fields that can never be updated here; errors.fields lists them
  */
 router.put(
   '/:id',
+  allowFields(USER_WRITE_POLICY),
   [
     body('email').optional().isEmail().withMessage('Please include a valid email'),
     body('phone').optional(),
     body('name').optional(),
     body('preferredLang')
       .optional()
-      .isString()
-      .withMessage('Preferred language must be a string'),
+      .isIn(SUPPORTED_LANGUAGES)
+      .withMessage(`Preferred language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`),
     body('region')
       .optional()
       .isString()
@@ -321,7 +419,7 @@ router.put(
  *         description: User id
  *     responses:
  *       200:
- *         description: User deleted successfully
+ *         description: User moved to the trash and signed out of all devices
  *       404:
  *         description: User not found
  *       401:
@@ -331,4 +429,41 @@ router.put(
  */
 router.delete('/:id', deleteUser);
 
+/**
+ * @swagger
+ * /api/v1/users/{id}/restore:
+ *   put:
+ *     summary: Restore a deleted user (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: No deleted user with this id
+ *       409:
+ *         description: The user was already anonymised by the purge job
+ */
+router.put('/:id/restore', authorize('admin'), restoreUser);
+
 export default router; 
@@ -6,10 +6,18 @@ import {
   createWorker,
   updateWorker,
   deleteWorker,
-  getWorkersStats
+  getDeletedWorkers,
+  restoreWorker,
+  getWorkersStats,
+  getMyAssignedTransfers,
+  updateMyTransferStatus
 } from '../controllers/workerController';
 
 import { protect, authorize } from '../middleware/auth';
+import { allowFields } from '../middleware/fieldPolicy';
+import { WORKER_WRITE_POLICY } from '../config/writePolicies';
+import { SUPPORTED_LANGUAGES } from '../services/notificationTemplates';
+import { passwordPolicyValidator } from '../utils/passwordPolicy';
 
 const router: Router = express.Router();
 
@@ -27,9 +35,76 @@ router.use(protect);
  *     tags: [Workers]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: identityNumber
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: phone
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isAvailable
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [worker, manager, supervisor]
+ *       - in: query
+ *         name: region
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, name, rating, completedJobs, experience]
+ *           default: createdAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from pagination.nextCursor. Send an empty value to start cursor pagination; page is ignored when set.
  *     responses:
  *       200:
  *         description: List of all workers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
  *       401:
  *         description: Not authorized
  *       403:
@@ -72,6 +147,159 @@ router.get('/',authorize('admin'), getWorkers);
  */
 router.get('/stats', authorize('admin'), getWorkersStats)
 
+/**
+ * @swagger
+ * /api/v1/workers/deleted:
+ *   get:
+ *     summary: Get deleted workers (Admin only)
+ *     tags: [Workers]
+ *     security:
+ *       - bearerAuth: []
+ *     description: >
+ *       Workers in the trash, most recently deleted first. They can be restored until the purge
+ *       job anonymises or removes them after SOFT_DELETE_RETENTION_DAYS.
+ *     parameters:
+ *       - in: query
+ *         name: deletedBy
+ *         schema:
+ *           type: string
+ *         description: Only records deleted by this account
+ *       - in: query
+ *         name: deletedAt[from]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: deletedAt[to]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [deletedAt, createdAt]
+ *           default: deletedAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of deleted workers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Worker'
+ *                       - $ref: '#/components/schemas/SoftDeleteFields'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/ListPagination'
+ *       400:
+ *         description: Sort field not allowed or invalid cursor
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/deleted', authorize('admin'), getDeletedWorkers);
+
+/**
+ * @swagger
+ * /api/v1/workers/me/transfers:
+ *   get:
+ *     summary: Get transfers assigned to the logged in worker
+ *     tags: [Workers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, in_progress, completed, cancelled]
+ *     responses:
+ *       200:
+ *         description: List of assigned transfers
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Worker access required
+ */
+router.get('/me/transfers', getMyAssignedTransfers);
+
+/**
+ * @swagger
+ * /api/v1/workers/me/transfers/{id}/status:
+ *   put:
+ *     summary: Update the status of an assigned transfer
+ *     tags: [Workers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [in_progress, completed]
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Transfer status updated
+ *       403:
+ *         description: Transfer is not assigned to this worker
+ *       404:
+ *         description: Transfer not found
+ *       409:
+ *         description: Illegal status transition
+ */
+router.put(
+  '/me/transfers/:id/status',
+  [
+    body('status').isIn(['in_progress', 'completed']).withMessage('Status must be in_progress or completed'),
+    body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason cannot be more than 500 characters')
+  ],
+  updateMyTransferStatus
+);
+
 /**
  * @swagger
  * /api/v1/workers/{id}:
@@ -138,6 +366,7 @@ router.get('/:id', getWorker);
  *                 type: number
  *               preferredLang:
  *                 type: string
+ *                 enum: [en, ar]
  *                 default: en
  *               region:
  *                 type: string
@@ -179,16 +408,14 @@ router.post(
     body('identityNumber').not().isEmpty().withMessage('Identity Number is required'),
     body('email').isEmail().withMessage('Please include a valid email'),
     body('phone').not().isEmpty().withMessage('Phone number is required'),
-    body('password')
-      .isLength({ min: 6 })
-      .withMessage('Password must be at least 6 characters'),
+    passwordPolicyValidator(),
     body('experience')
       .isNumeric()
       .withMessage('Experience must be a number'),
     body('preferredLang')
       .optional()
-      .isString()
-      .withMessage('Preferred language must be a string'),
+      .isIn(SUPPORTED_LANGUAGES)
+      .withMessage(`Preferred language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`),
     body('region')
       .optional()
       .isString()
@@ -238,6 +465,7 @@ router.post(
  *                 type: number
  *               preferredLang:
  *                 type: string
+ *                 enum: [en, ar]
  *               region:
  *                 type: string
  *               timeFormat:
@@ -256,12 +484,15 @@ router.post(
  *       401:
  *         description: Not authorized
  *       403:
- *         description: Forbidden. Only admin or the worker themselves can update.
+ *         description: Forbidden. Only admin or the worker themselves can update, and only the fields allowed for their role (errors.fields lists the others).
  *       404:
  *         description: Worker not found
+ *       422:
+ *         description: The body contains fields that can never be updated here; errors.fields lists them
  */
 router.put(
   '/:id',
+  allowFields(WORKER_WRITE_POLICY),
   [
     body('email')
       .optional()
@@ -283,8 +514,8 @@ router.put(
       .withMessage('Experience must be a number'),
     body('preferredLang')
       .optional()
-      .isString()
-      .withMessage('Preferred language must be a string'),
+      .isIn(SUPPORTED_LANGUAGES)
+      .withMessage(`Preferred language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`),
     body('region')
       .optional()
       .isString()
@@ -322,7 +553,7 @@ router.put(
  *         description: Worker id
  *     responses:
  *       200:
- *         description: Worker deleted successfully
+ *         description: Worker moved to the trash and signed out of all devices
  *       404:
  *         description: Worker not found
  *       401:
@@ -332,4 +563,41 @@ router.put(
  */
 router.delete('/:id', deleteWorker);
 
+/**
+ * @swagger
+ * /api/v1/workers/{id}/restore:
+ *   put:
+ *     summary: Restore a deleted worker (Admin only)
+ *     tags: [Workers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Worker restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Worker'
+ *       401:
+ *         description: Not authorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: No deleted worker with this id
+ *       409:
+ *         description: The worker was already anonymised by the purge job
+ */
+router.put('/:id/restore', authorize('admin'), restoreWorker);
+
 export default router; 
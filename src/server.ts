@@ -13,8 +13,19 @@ import complaintRoutes from './routes/complaintRoutes';
 import notificationRoutes from './routes/notificationRoutes';
 import transferRoutes from './routes/transferRoutes';
 import adRoutes from './routes/adRoutes';
+import pricingRoutes from './routes/pricingRoutes';
+import paymentRoutes from './routes/paymentRoutes';
+import orderRoutes from './routes/orderRoutes';
+import serviceRoutes from './routes/serviceRoutes';
+import searchRoutes from './routes/searchRoutes';
+import trashRoutes from './routes/trashRoutes';
 import { connectDB } from './config/db';
 import { initializeSocket } from './config/socket';
+import { startFlightStatusMonitor } from './services/flightDelays';
+import { registerNotificationDispatcher, startNotificationRetryWorker } from './services/notificationDispatch';
+import { startTrashPurge } from './services/trash';
+import { assertMailConfigured } from './services/mail';
+import { revokeSessionsWithoutTwoFactor } from './services/twoFactor';
 
 import User from './models/User';
 
@@ -28,15 +39,42 @@ import { apiLimiter } from './middleware/rateLimiter';
 // Load env vars
 dotenv.config();
 
+// TRUST_PROXY is a hop count, true/false or a list of trusted addresses; defaults to one proxy
+const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+  if (!value) {
+    return 1;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+};
+
 // Initialize app
 const app: Express = express();
 const httpServer = createServer(app);
 
+// Take the client address from X-Forwarded-For behind the proxy, so per-IP limits see real clients
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
 // Initialize socket.io
 const io = initializeSocket(httpServer);
 
-// Body parser
-app.use(express.json());
+// Logins depend on email (two-factor setup codes), so production refuses to
+// start without a real mail transport
+if (process.env.NODE_ENV === 'production') {
+  assertMailConfigured();
+}
+
+// Send new notifications by email and SMS
+registerNotificationDispatcher();
+
+// Body parser (keeps the raw body for webhook signature checks)
+app.use(express.json({
+  verify: (req: Request, res: Response, buf: Buffer) => {
+    req.rawBody = buf;
+  }
+}));
 
 // Enable CORS
 app.use(cors({
@@ -81,6 +119,12 @@ app.use('/api/v1/complaints', complaintRoutes);
 app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1/transfers', transferRoutes);
 app.use('/api/v1/ads', adRoutes); 
+app.use('/api/v1/pricing', pricingRoutes);
+app.use('/api/v1/payments', paymentRoutes);
+app.use('/api/v1/orders', orderRoutes);
+app.use('/api/v1/services', serviceRoutes);
+app.use('/api/v1/search', searchRoutes);
+app.use('/api/v1/trash', trashRoutes);
 
 // Set up Swagger docs with custom options
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
@@ -111,35 +155,67 @@ app.get('/', (req: Request, res: Response) => {
 // Error handler middleware (should be last)
 app.use(errorHandler);
 
-// Function to check and create admin user if none exists
-//TODO add env
-const checkAndCreateAdmin = async () => {
+// Create the first admin from SEED_ADMIN_* env vars when no admin exists yet.
+// Seeding is refused in production; further admins are added through invites.
+const seedAdminFromEnv = async () => {
+  const { SEED_ADMIN_EMAIL, SEED_ADMIN_PASSWORD, SEED_ADMIN_NAME, SEED_ADMIN_PHONE } = process.env;
+
+  if (!SEED_ADMIN_EMAIL || !SEED_ADMIN_PASSWORD) {
+    return;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    console.error('Refusing to seed an admin user in production; use an admin invite instead');
+    return;
+  }
+
   try {
     const adminExists = await User.findOne({ role: 'admin' });
     if (!adminExists) {
       await User.create({
-        name: 'admin user',
-        email: 'admin@gmail.com',
-        phone: '+5395272334',
-        password: '123456',
-        identityNumber: '1234567890',
+        name: SEED_ADMIN_NAME || 'admin user',
+        email: SEED_ADMIN_EMAIL,
+        emailVerified: true,
+        phone: SEED_ADMIN_PHONE || '+0000000000',
+        password: SEED_ADMIN_PASSWORD,
         role: 'admin',
         isAvailable: true
       });
-      console.log('Admin user created successfully');
+      console.log(`Admin user ${SEED_ADMIN_EMAIL} created from environment`);
     }
   } catch (error) {
     console.error('Error creating admin user:', error);
   }
 };
 
+// Background jobs run in every environment, not only when this file starts the server;
+// each entry point calls this once the database connection is up.
+export const startBackgroundJobs = (): void => {
+  // Anonymise or remove records that stayed in the trash past the retention period;
+  // serverless deployments can also call POST /api/v1/trash/purge.
+  startTrashPurge();
+  // Retry notification deliveries that failed
+  startNotificationRetryWorker();
+  // Reschedule pickups for delayed flights
+  startFlightStatusMonitor();
+  // Sign out sessions of roles that require 2FA but never passed it (e.g. opened before the rollout)
+  revokeSessionsWithoutTwoFactor()
+    .then(count => {
+      if (count > 0) {
+        console.log(`Revoked ${count} sessions without two-factor authentication`);
+      }
+    })
+    .catch(err => console.error('Error revoking sessions without two-factor authentication:', err));
+};
+
 // Connect to database and start server only if not in serverless environment
 if (process.env.NODE_ENV !== 'production') {
   const PORT: number = process.env.PORT ? parseInt(process.env.PORT, 10) : 5000;
   
   connectDB().then(async () => {
-    // Check and create admin user after database connection
-    await checkAndCreateAdmin();
+    // Seed the first admin user after database connection
+    await seedAdminFromEnv();
+    startBackgroundJobs();
     
     httpServer.listen(PORT, () => {
       console.log(`Server running in ${process.env.NODE_ENV} mode on port ${PORT}`);
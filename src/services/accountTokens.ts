@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import AccountToken, { AccountTokenPurpose } from '../models/AccountToken';
+import { IUser } from '../models/User';
+import ErrorResponse from '../utils/errorResponse';
+import { sendMail } from './mail';
+
+// Lifetime of each token type in milliseconds
+const TOKEN_TTL: Record<AccountTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // 1 hour
+  email_verification: 24 * 60 * 60 * 1000 // 24 hours
+};
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const getAppUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+/**
+ * Create a single-use token, invalidating earlier unused tokens of the same purpose
+ */
+export const createAccountToken = async (
+  userId: Types.ObjectId,
+  purpose: AccountTokenPurpose
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await AccountToken.deleteMany({ userId, purpose, usedAt: null });
+  await AccountToken.create({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + TOKEN_TTL[purpose])
+  });
+
+  return token;
+};
+
+/**
+ * Mark a token as used and return its user ID. Throws a 400 ErrorResponse for
+ * unknown, expired or already used tokens.
+ */
+export const consumeAccountToken = async (
+  token: string,
+  purpose: AccountTokenPurpose
+): Promise<Types.ObjectId> => {
+  const accountToken = await AccountToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() },
+    { new: true }
+  );
+
+  if (!accountToken) {
+    throw new ErrorResponse('Invalid or expired token', 400);
+  }
+
+  return accountToken.userId;
+};
+
+/**
+ * Email a password reset link to the user
+ */
+export const sendPasswordResetEmail = async (user: IUser): Promise<void> => {
+  const token = await createAccountToken(user._id, 'password_reset');
+  const link = `${getAppUrl()}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hello ${user.name},\n\nUse the link below to reset your password. It expires in 1 hour.\n\n${link}\n\nIf you did not ask for a password reset, you can ignore this email.`
+  });
+};
+
+/**
+ * Tell an account holder their password was changed, in case it was not them
+ */
+export const sendPasswordChangedEmail = async (account: { name: string; email: string }): Promise<void> => {
+  await sendMail({
+    to: account.email,
+    subject: 'Your password was changed',
+    text: `Hello ${account.name},\n\nThe password of your account was changed on ${new Date().toUTCString()} and your other devices were signed out.\n\nIf you did not make this change, reset your password right away at ${getAppUrl()}/forgot-password and contact support.`
+  });
+};
+
+/**
+ * Email an address verification link to the user
+ */
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const token = await createAccountToken(user._id, 'email_verification');
+  const link = `${getAppUrl()}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hello ${user.name},\n\nPlease confirm your email address with the link below. It expires in 24 hours.\n\n${link}`
+  });
+};
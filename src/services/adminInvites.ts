@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import AdminInvite, { IAdminInvite } from '../models/AdminInvite';
+import User, { IUser } from '../models/User';
+import ErrorResponse from '../utils/errorResponse';
+import { sendMail } from './mail';
+import { assertEmailNotInTrash } from './trash';
+
+export interface AcceptInviteInput {
+  token: string;
+  name: string;
+  phone: string;
+  password: string;
+  identityNumber?: string;
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const getAppUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Invite lifetime in hours
+const getInviteTtlHours = (): number =>
+  process.env.ADMIN_INVITE_EXPIRE_HOURS ? parseInt(process.env.ADMIN_INVITE_EXPIRE_HOURS) : 48;
+
+/**
+ * Invite a new administrator by email. Earlier pending invites for the same
+ * address are replaced.
+ */
+export const createAdminInvite = async (
+  email: string,
+  invitedBy: Types.ObjectId
+): Promise<IAdminInvite> => {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  if (await User.exists({ email: normalizedEmail })) {
+    throw new ErrorResponse('A user with this email already exists', 409);
+  }
+  await assertEmailNotInTrash(User, normalizedEmail);
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const ttlHours = getInviteTtlHours();
+
+  await AdminInvite.deleteMany({ email: normalizedEmail, acceptedAt: null });
+  const invite = await AdminInvite.create({
+    email: normalizedEmail,
+    tokenHash: hashToken(token),
+    invitedBy,
+    expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+  });
+
+  const link = `${getAppUrl()}/admin-invite?token=${token}`;
+  await sendMail({
+    to: normalizedEmail,
+    subject: 'You have been invited as an administrator',
+    text: `Hello,\n\nYou have been invited to join Baggs as an administrator. Use the link below to create your account. It expires in ${ttlHours} hours.\n\n${link}`
+  });
+
+  return invite;
+};
+
+/**
+ * Create the admin account for a pending invite. The invite is claimed
+ * atomically so it can only be used once.
+ */
+export const acceptAdminInvite = async (input: AcceptInviteInput): Promise<IUser> => {
+  const invite = await AdminInvite.findOneAndUpdate(
+    { tokenHash: hashToken(input.token), acceptedAt: null, expiresAt: { $gt: new Date() } },
+    { acceptedAt: new Date() },
+    { new: true }
+  );
+
+  if (!invite) {
+    throw new ErrorResponse('Invalid or expired invite', 400);
+  }
+
+  try {
+    if (await User.exists({ email: invite.email })) {
+      throw new ErrorResponse('A user with this email already exists', 409);
+    }
+    await assertEmailNotInTrash(User, invite.email);
+
+    const user = await User.create({
+      name: input.name,
+      email: invite.email,
+      emailVerified: true, // the invite link proves ownership of the address
+      phone: input.phone,
+      password: input.password,
+      identityNumber: input.identityNumber,
+      role: 'admin'
+    });
+
+    invite.acceptedBy = user._id;
+    await invite.save();
+
+    return user;
+  } catch (err) {
+    // Give the invite back so the invitee can retry with corrected details
+    await AdminInvite.updateOne({ _id: invite._id }, { $unset: { acceptedAt: 1 } });
+    throw err;
+  }
+};
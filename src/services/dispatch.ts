@@ -0,0 +1,142 @@
+import { Types } from 'mongoose';
+import Transfer, { TransferStatus } from '../models/Transfer';
+import Worker, { IWorker } from '../models/Worker';
+import User from '../models/User';
+import ErrorResponse from '../utils/errorResponse';
+import { getIO } from '../config/socket';
+import { publish } from './events';
+import { notifyFromTemplate } from './notifications';
+
+// Skill a worker needs to be dispatched on transfers with breakable items
+export const FRAGILE_SKILL = 'fragile_handling';
+
+// Transfers that count towards a worker's current load
+const ACTIVE_STATUSES: TransferStatus[] = ['pending', 'in_progress'];
+
+// Number of active transfers after which a worker gets no new transfers
+const getMaxLoad = (): number =>
+  process.env.DISPATCH_MAX_LOAD ? parseInt(process.env.DISPATCH_MAX_LOAD, 10) : 3;
+
+// Count active transfers per worker
+const getActiveLoads = async (workerIds: Types.ObjectId[]): Promise<Map<string, number>> => {
+  const loads = await Transfer.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: { workerId: { $in: workerIds }, status: { $in: ACTIVE_STATUSES } } },
+    { $group: { _id: '$workerId', count: { $sum: 1 } } }
+  ]);
+
+  return new Map(loads.map(load => [load._id.toString(), load.count]));
+};
+
+/**
+ * Store a worker's current load. Availability is left alone: it is the worker's
+ * own on/off duty flag, and the load cap is applied separately when dispatching.
+ */
+export const refreshWorkerLoad = async (workerId: Types.ObjectId | string): Promise<void> => {
+  const id = new Types.ObjectId(workerId.toString());
+  const loads = await getActiveLoads([id]);
+
+  await Worker.findByIdAndUpdate(id, { activeTransfers: loads.get(id.toString()) ?? 0 });
+};
+
+/**
+ * Pick the best available worker for a transfer.
+ * Candidates must be available, in the given region (when known) and able to handle
+ * breakable items when the transfer has any. Ties are broken by lowest load, then highest rating.
+ */
+export const findBestWorker = async (
+  transfer: { items: { isBreakable: boolean }[] },
+  region?: string
+) => {
+  const query: Record<string, unknown> = { isAvailable: true, role: 'worker' };
+
+  if (region) {
+    query.region = region;
+  }
+  if (transfer.items.some(item => item.isBreakable)) {
+    query.skills = FRAGILE_SKILL;
+  }
+
+  const candidates = await Worker.find(query);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const loads = await getActiveLoads(candidates.map(worker => worker._id));
+  const maxLoad = getMaxLoad();
+
+  const ranked = candidates
+    .map(worker => ({ worker, load: loads.get(worker._id.toString()) ?? 0 }))
+    .filter(candidate => candidate.load < maxLoad)
+    .sort((a, b) => a.load - b.load || b.worker.rating - a.worker.rating);
+
+  return ranked.length > 0 ? ranked[0].worker : null;
+};
+
+/**
+ * Assign a transfer to a worker. Without a workerId the best worker is picked automatically.
+ * Notifies the worker and the transfer room over Socket.IO.
+ */
+export const assignTransfer = async (
+  transferId: Types.ObjectId | string,
+  workerId?: Types.ObjectId | string,
+  region?: string
+) => {
+  const transfer = await Transfer.findById(transferId);
+
+  if (!transfer) {
+    throw new ErrorResponse('Transfer not found', 404);
+  }
+
+  if (!ACTIVE_STATUSES.includes(transfer.status)) {
+    throw new ErrorResponse(`Cannot assign a ${transfer.status} transfer`, 409);
+  }
+
+  let worker: IWorker | null;
+
+  if (workerId) {
+    worker = await Worker.findById(workerId);
+    if (!worker) {
+      throw new ErrorResponse(`Worker not found with id of ${workerId}`, 404);
+    }
+  } else {
+    // Fall back to the customer's region when none is given
+    const dispatchRegion = region ?? (await User.findById(transfer.userId))?.region;
+    worker = await findBestWorker(transfer, dispatchRegion);
+    if (!worker) {
+      throw new ErrorResponse('No available worker matches this transfer', 409);
+    }
+  }
+
+  const previousWorkerId = transfer.workerId;
+
+  const updated = await Transfer.findByIdAndUpdate(
+    transfer._id,
+    { workerId: worker._id, assignedAt: new Date() },
+    { new: true, runValidators: true }
+  )
+    .populate('userId', 'name email')
+    .populate('workerId', 'name email phone');
+
+  await refreshWorkerLoad(worker._id);
+  if (previousWorkerId && previousWorkerId.toString() !== worker._id.toString()) {
+    await refreshWorkerLoad(previousWorkerId);
+  }
+
+  const io = getIO();
+  if (io) {
+    io.to(`worker-${worker._id}`).emit('transferAssigned', updated);
+    io.to(`transfer-${transfer._id}`).emit('transferAssigned', updated);
+  }
+
+  if (updated) {
+    publish('transfer.updated', { transfer: updated, change: 'assigned' });
+    await notifyFromTemplate(
+      'transfer_assigned',
+      [transfer.userId],
+      { workerName: worker.name, from: transfer.from, to: transfer.to, pickUpAt: transfer.pickUpAt },
+      { timeZone: transfer.pickUpTimezone }
+    );
+  }
+
+  return updated;
+};
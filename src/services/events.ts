@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+import { Types } from 'mongoose';
+import { ITransfer } from '../models/Transfer';
+import { IComplaint, IResponse } from '../models/Complaint';
+import { INotification } from '../models/Notification';
+
+type WithId<T> = T & { _id: Types.ObjectId };
+
+// What changed on a transfer, so listeners can pick the updates they care about
+export type TransferChange = 'status' | 'assigned' | 'rescheduled' | 'rated' | 'edited';
+
+export interface DomainEvents {
+  'transfer.updated': {
+    transfer: WithId<ITransfer>;
+    change: TransferChange;
+    actorId?: string;
+  };
+  'complaint.responded': {
+    complaint: WithId<IComplaint>;
+    response: IResponse;
+  };
+  'notification.created': {
+    notification: WithId<INotification>;
+  };
+  'notification.unread_count': {
+    userId: string;
+    count: number;
+  };
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+type DomainEventHandler<K extends DomainEventName> = (payload: DomainEvents[K]) => void | Promise<void>;
+
+const emitter = new EventEmitter();
+
+/**
+ * Publish a domain event. Handlers run after the current request has finished
+ * its own work; their failures are logged and never reach the publisher.
+ */
+export const publish = <K extends DomainEventName>(event: K, payload: DomainEvents[K]): void => {
+  emitter.emit(event, payload);
+};
+
+/**
+ * Subscribe to a domain event. Returns a function that removes the handler.
+ */
+export const subscribe = <K extends DomainEventName>(event: K, handler: DomainEventHandler<K>): (() => void) => {
+  const listener = (payload: DomainEvents[K]) => {
+    setImmediate(() => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch(err => console.error(`Error handling ${event} event:`, err));
+    });
+  };
+
+  emitter.on(event, listener);
+  return () => {
+    emitter.off(event, listener);
+  };
+};
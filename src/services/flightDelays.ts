@@ -0,0 +1,140 @@
+import { Types } from 'mongoose';
+import Transfer, { ITransfer } from '../models/Transfer';
+import { getDefaultTimeZone, utcToZonedParts } from '../utils/timezone';
+import { getFlightStatusProvider } from './flightStatus';
+import { notifyFromTemplate } from './notifications';
+import { publish, TransferChange } from './events';
+
+type TransferDocument = ITransfer & { _id: Types.ObjectId };
+
+export interface FlightCheckSummary {
+  checked: number;
+  rescheduled: number;
+  cancelledFlights: number;
+}
+
+// Only upcoming transfers within this many hours are checked
+const getCheckWindowHours = (): number =>
+  process.env.FLIGHT_CHECK_WINDOW_HOURS ? parseInt(process.env.FLIGHT_CHECK_WINDOW_HOURS) : 24;
+
+const getPollMinutes = (): number =>
+  process.env.FLIGHT_STATUS_POLL_MINUTES ? parseInt(process.env.FLIGHT_STATUS_POLL_MINUTES) : 10;
+
+/**
+ * Notify the customer and the assigned worker and publish the new pickup time
+ */
+const notifyTransferParties = async (
+  transfer: TransferDocument,
+  template: string,
+  change: TransferChange
+): Promise<void> => {
+  await notifyFromTemplate(
+    template,
+    [transfer.userId, transfer.workerId],
+    {
+      flightNumber: transfer.flightNumber,
+      delayMinutes: transfer.flightStatus?.delayMinutes,
+      pickUpAt: transfer.pickUpAt
+    },
+    { timeZone: transfer.pickUpTimezone }
+  );
+
+  publish('transfer.updated', { transfer, change });
+};
+
+/**
+ * Check the flight of one transfer and move its pickup time by the current delay
+ */
+const checkTransferFlight = async (transfer: TransferDocument): Promise<'rescheduled' | 'cancelled' | null> => {
+  const provider = getFlightStatusProvider();
+  const result = await provider.getStatus(transfer.flightNumber!, transfer.pickUpAt);
+  if (!result) {
+    return null;
+  }
+
+  const previous = transfer.flightStatus;
+  const previousDelay = previous?.delayMinutes ?? 0;
+  const originalPickUpAt = previous?.originalPickUpAt ?? transfer.pickUpAt;
+  // Cancelled or landed flights keep the last known delay
+  const delayMinutes = result.status === 'delayed' || result.status === 'scheduled'
+    ? result.delayMinutes
+    : previousDelay;
+
+  const flightStatus = {
+    status: result.status,
+    delayMinutes,
+    originalPickUpAt,
+    provider: provider.name,
+    checkedAt: new Date()
+  };
+
+  if (delayMinutes !== previousDelay) {
+    const pickUpAt = new Date(originalPickUpAt.getTime() + delayMinutes * 60 * 1000);
+    const { date, time } = utcToZonedParts(pickUpAt, transfer.pickUpTimezone || getDefaultTimeZone());
+
+    // Match on the current pickup time so a concurrent edit is not overwritten
+    const updated = await Transfer.findOneAndUpdate(
+      { _id: transfer._id, pickUpAt: transfer.pickUpAt },
+      { pickUpAt, pickUpDate: date, pickUpTime: time, flightStatus },
+      { new: true }
+    );
+    if (!updated) {
+      return null;
+    }
+
+    await notifyTransferParties(updated, delayMinutes > 0 ? 'transfer_delayed' : 'flight_on_time', 'rescheduled');
+    return 'rescheduled';
+  }
+
+  const updated = await Transfer.findByIdAndUpdate(transfer._id, { flightStatus }, { new: true });
+
+  if (updated && result.status === 'cancelled' && previous?.status !== 'cancelled') {
+    await notifyTransferParties(updated, 'flight_cancelled', 'edited');
+    return 'cancelled';
+  }
+
+  return null;
+};
+
+/**
+ * Check the flights of all upcoming transfers and shift pickup times for delays
+ */
+export const checkFlightDelays = async (now: Date = new Date()): Promise<FlightCheckSummary> => {
+  const windowEnd = new Date(now.getTime() + getCheckWindowHours() * 60 * 60 * 1000);
+
+  const transfers = await Transfer.find({
+    flightNumber: { $exists: true, $ne: '' },
+    status: { $in: ['pending', 'in_progress'] },
+    pickUpAt: { $gte: now, $lte: windowEnd }
+  });
+
+  const summary: FlightCheckSummary = { checked: transfers.length, rescheduled: 0, cancelledFlights: 0 };
+
+  for (const transfer of transfers) {
+    try {
+      const outcome = await checkTransferFlight(transfer);
+      if (outcome === 'rescheduled') summary.rescheduled += 1;
+      if (outcome === 'cancelled') summary.cancelledFlights += 1;
+    } catch (err) {
+      console.error(`Error checking flight for transfer ${transfer._id}:`, err);
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Poll flight statuses every FLIGHT_STATUS_POLL_MINUTES (0 disables polling)
+ */
+export const startFlightStatusMonitor = (): NodeJS.Timeout | null => {
+  const minutes = getPollMinutes();
+  if (minutes <= 0) {
+    return null;
+  }
+
+  const timer = setInterval(() => {
+    checkFlightDelays().catch(err => console.error('Error checking flight delays:', err));
+  }, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+};
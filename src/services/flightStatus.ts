@@ -0,0 +1,56 @@
+import fs from 'fs/promises';
+import path from 'path';
+import ErrorResponse from '../utils/errorResponse';
+
+export interface FlightStatusResult {
+  status: 'scheduled' | 'delayed' | 'cancelled' | 'landed' | 'unknown';
+  // Minutes the arrival is behind schedule (0 when on time)
+  delayMinutes: number;
+}
+
+export interface FlightStatusProvider {
+  name: string;
+  getStatus(flightNumber: string, date: Date): Promise<FlightStatusResult | null>;
+}
+
+/**
+ * Local stub for development and tests. Reads flight statuses from a JSON file
+ * (FLIGHT_STATUS_FIXTURE, default fixtures/flight-status.json) keyed by flight
+ * number, or by "<flight number>@<YYYY-MM-DD>" for a specific day.
+ */
+export const fixtureFlightStatusProvider: FlightStatusProvider = {
+  name: 'fixture',
+
+  async getStatus(flightNumber, date) {
+    const fixturePath = process.env.FLIGHT_STATUS_FIXTURE ?? path.join(process.cwd(), 'fixtures', 'flight-status.json');
+
+    let fixtures: Record<string, FlightStatusResult>;
+    try {
+      fixtures = JSON.parse(await fs.readFile(fixturePath, 'utf8'));
+    } catch (err) {
+      return null;
+    }
+
+    const day = date.toISOString().slice(0, 10);
+    return fixtures[`${flightNumber}@${day}`] ?? fixtures[flightNumber] ?? null;
+  }
+};
+
+const providers: Record<string, FlightStatusProvider> = {
+  [fixtureFlightStatusProvider.name]: fixtureFlightStatusProvider
+};
+
+// Register a provider so it can be selected with FLIGHT_STATUS_PROVIDER
+export const registerFlightStatusProvider = (provider: FlightStatusProvider): void => {
+  providers[provider.name] = provider;
+};
+
+export const getFlightStatusProvider = (
+  name: string = process.env.FLIGHT_STATUS_PROVIDER ?? 'fixture'
+): FlightStatusProvider => {
+  const provider = providers[name];
+  if (!provider) {
+    throw new ErrorResponse(`Unknown flight status provider ${name}`, 500);
+  }
+  return provider;
+};
@@ -0,0 +1,129 @@
+import LoginAttempt from '../models/LoginAttempt';
+import ErrorResponse from '../utils/errorResponse';
+
+export interface AttemptRecord {
+  failures: number;
+  resetAt: Date;
+  blockedUntil?: Date;
+}
+
+/**
+ * Where failed login counters live. Use a shared store (mongo) when several
+ * instances run behind a load balancer so the limits hold across them.
+ */
+export interface LoginAttemptStore {
+  name: string;
+  get(key: string): Promise<AttemptRecord | null>;
+  // Count a failure; the window restarts when the previous one has passed
+  increment(key: string, windowMs: number): Promise<AttemptRecord>;
+  block(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+const records = new Map<string, AttemptRecord>();
+
+/**
+ * Single-instance store kept in process memory
+ */
+export const memoryLoginAttemptStore: LoginAttemptStore = {
+  name: 'memory',
+
+  async get(key) {
+    const record = records.get(key);
+    if (record && record.resetAt <= new Date()) {
+      records.delete(key);
+      return null;
+    }
+    return record ?? null;
+  },
+
+  async increment(key, windowMs) {
+    const current = await this.get(key);
+    const record: AttemptRecord = current
+      ? { ...current, failures: current.failures + 1 }
+      : { failures: 1, resetAt: new Date(Date.now() + windowMs) };
+    records.set(key, record);
+    return record;
+  },
+
+  async block(key, until) {
+    const record = records.get(key);
+    if (record) {
+      record.blockedUntil = until;
+      // Keep the record at least as long as the block
+      if (record.resetAt < until) record.resetAt = until;
+    }
+  },
+
+  async reset(key) {
+    records.delete(key);
+  }
+};
+
+/**
+ * Store shared by all instances through the LoginAttempt collection
+ */
+export const mongoLoginAttemptStore: LoginAttemptStore = {
+  name: 'mongo',
+
+  async get(key) {
+    return LoginAttempt.findOne({ key, resetAt: { $gt: new Date() } }).lean();
+  },
+
+  async increment(key, windowMs) {
+    const now = new Date();
+    const expired = { $lte: ['$resetAt', now] };
+    // Pipeline update so the window check and increment happen atomically
+    const record = await LoginAttempt.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            key,
+            failures: { $cond: [{ $or: [expired, { $not: ['$failures'] }] }, 1, { $add: ['$failures', 1] }] },
+            blockedUntil: { $cond: [expired, '$$REMOVE', '$blockedUntil'] },
+            resetAt: { $cond: [{ $or: [expired, { $not: ['$resetAt'] }] }, new Date(now.getTime() + windowMs), '$resetAt'] },
+            createdAt: { $ifNull: ['$createdAt', now] },
+            updatedAt: now
+          }
+        }
+      ],
+      { upsert: true, new: true, lean: true }
+    );
+    return record!;
+  },
+
+  async block(key, until) {
+    await LoginAttempt.updateOne(
+      { key },
+      [{ $set: { blockedUntil: until, resetAt: { $max: ['$resetAt', until] } } }]
+    );
+  },
+
+  async reset(key) {
+    await LoginAttempt.deleteOne({ key });
+  }
+};
+
+const stores: Record<string, LoginAttemptStore> = {
+  [memoryLoginAttemptStore.name]: memoryLoginAttemptStore,
+  [mongoLoginAttemptStore.name]: mongoLoginAttemptStore
+};
+
+// Register a store so it can be selected with LOGIN_ATTEMPT_STORE
+export const registerLoginAttemptStore = (store: LoginAttemptStore): void => {
+  stores[store.name] = store;
+};
+
+// Production defaults to the shared Mongo store; memory counters are lost on restart and not shared between instances
+const getDefaultStoreName = (): string => (process.env.NODE_ENV === 'production' ? 'mongo' : 'memory');
+
+export const getLoginAttemptStore = (
+  name: string = process.env.LOGIN_ATTEMPT_STORE || getDefaultStoreName()
+): LoginAttemptStore => {
+  const store = stores[name];
+  if (!store) {
+    throw new ErrorResponse(`Unknown login attempt store ${name}`, 500);
+  }
+  return store;
+};
@@ -0,0 +1,119 @@
+import { AuthPrincipal } from '../middleware/auth';
+import { getLoginAttemptStore } from './loginAttemptStore';
+
+export interface LoginBlock {
+  // Whether the account or the client IP is blocked
+  scope: 'account' | 'ip';
+  retryAfterSeconds: number;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Limits read from the environment
+ * - LOGIN_FAILURE_WINDOW_MINUTES: how long failures of an account are remembered
+ * - LOGIN_DELAY_AFTER: failures before each further attempt is delayed
+ * - LOGIN_DELAY_BASE_SECONDS / LOGIN_DELAY_MAX_SECONDS: first delay, doubled per failure up to the max
+ * - LOGIN_MAX_FAILURES / LOGIN_LOCKOUT_MINUTES: failures that lock the account, and for how long
+ * - LOGIN_IP_MAX_FAILURES / LOGIN_IP_WINDOW_MINUTES: failures from one IP, across all accounts, that block it
+ */
+const getLimits = () => ({
+  windowMs: readNumber('LOGIN_FAILURE_WINDOW_MINUTES', 15) * 60 * 1000,
+  delayAfter: readNumber('LOGIN_DELAY_AFTER', 3),
+  delayBaseMs: readNumber('LOGIN_DELAY_BASE_SECONDS', 1) * 1000,
+  delayMaxMs: readNumber('LOGIN_DELAY_MAX_SECONDS', 60) * 1000,
+  maxFailures: readNumber('LOGIN_MAX_FAILURES', 10),
+  lockoutMs: readNumber('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000,
+  ipMaxFailures: readNumber('LOGIN_IP_MAX_FAILURES', 50),
+  ipWindowMs: readNumber('LOGIN_IP_WINDOW_MINUTES', 15) * 60 * 1000
+});
+
+const accountKey = (principal: AuthPrincipal, email: string): string =>
+  `account:${principal}:${email.trim().toLowerCase()}`;
+
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+const secondsUntil = (date: Date): number => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+/**
+ * Return the block that applies to a login attempt, or null when it may proceed
+ */
+export const getLoginBlock = async (
+  principal: AuthPrincipal,
+  email: string,
+  ip: string | undefined
+): Promise<LoginBlock | null> => {
+  const store = getLoginAttemptStore();
+  const now = new Date();
+
+  const account = await store.get(accountKey(principal, email));
+  if (account?.blockedUntil && account.blockedUntil > now) {
+    return { scope: 'account', retryAfterSeconds: secondsUntil(account.blockedUntil) };
+  }
+
+  if (ip) {
+    const client = await store.get(ipKey(ip));
+    if (client?.blockedUntil && client.blockedUntil > now) {
+      return { scope: 'ip', retryAfterSeconds: secondsUntil(client.blockedUntil) };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Count a failed login. Unknown emails are counted too so responses do not
+ * reveal which accounts exist.
+ */
+export const recordLoginFailure = async (
+  principal: AuthPrincipal,
+  email: string,
+  ip: string | undefined
+): Promise<void> => {
+  const store = getLoginAttemptStore();
+  const limits = getLimits();
+  const now = Date.now();
+
+  const key = accountKey(principal, email);
+  const account = await store.increment(key, limits.windowMs);
+
+  if (limits.maxFailures > 0 && account.failures >= limits.maxFailures) {
+    await store.block(key, new Date(now + limits.lockoutMs));
+  } else if (account.failures >= limits.delayAfter) {
+    const delay = Math.min(
+      limits.delayBaseMs * 2 ** (account.failures - limits.delayAfter),
+      limits.delayMaxMs
+    );
+    if (delay > 0) {
+      await store.block(key, new Date(now + delay));
+    }
+  }
+
+  if (ip && limits.ipMaxFailures > 0) {
+    const client = await store.increment(ipKey(ip), limits.ipWindowMs);
+    if (client.failures >= limits.ipMaxFailures) {
+      await store.block(ipKey(ip), client.resetAt);
+    }
+  }
+};
+
+/**
+ * Forget the failures of an account after a successful login
+ */
+export const recordLoginSuccess = async (principal: AuthPrincipal, email: string): Promise<void> => {
+  await getLoginAttemptStore().reset(accountKey(principal, email));
+};
+
+/**
+ * Lift a lockout on an account. Returns whether the account had recorded failures.
+ */
+export const unlockAccount = async (principal: AuthPrincipal, email: string): Promise<boolean> => {
+  const store = getLoginAttemptStore();
+  const key = accountKey(principal, email);
+  const existing = await store.get(key);
+  await store.reset(key);
+  return existing !== null;
+};
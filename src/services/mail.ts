@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import ErrorResponse from '../utils/errorResponse';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  // Development transports expose message contents and are refused in production
+  developmentOnly?: boolean;
+  // Throws when the transport is missing required configuration
+  checkConfig?(): void;
+  send(message: MailMessage): Promise<void>;
+}
+
+const getFrom = (): string => process.env.MAIL_FROM ?? 'Baggs <no-reply@baggs.com>';
+
+/**
+ * Development transport that prints messages to the console
+ */
+export const consoleMailTransport: MailTransport = {
+  name: 'console',
+  developmentOnly: true,
+
+  async send(message) {
+    console.log(`[mail] From: ${getFrom()}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+};
+
+/**
+ * Development and test transport that writes each message as a JSON file to MAIL_OUTBOX_DIR
+ */
+export const fileMailTransport: MailTransport = {
+  name: 'file',
+  developmentOnly: true,
+
+  async send(message) {
+    const outbox = process.env.MAIL_OUTBOX_DIR ?? path.join(process.cwd(), 'mail-outbox');
+    await fs.mkdir(outbox, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(
+      path.join(outbox, fileName),
+      JSON.stringify({ from: getFrom(), ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+};
+
+let smtpTransporter: Transporter | null = null;
+
+const getSmtpTransporter = (): Transporter => {
+  smtpMailTransport.checkConfig!();
+  if (!smtpTransporter) {
+    const port = process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : 587;
+    smtpTransporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      // Implicit TLS on 465, STARTTLS otherwise unless SMTP_SECURE says so
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+    });
+  }
+  return smtpTransporter;
+};
+
+/**
+ * Transport that sends through an SMTP server configured with SMTP_HOST,
+ * SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASS
+ */
+export const smtpMailTransport: MailTransport = {
+  name: 'smtp',
+
+  checkConfig() {
+    if (!process.env.SMTP_HOST) {
+      throw new ErrorResponse('SMTP_HOST must be set for the smtp mail transport', 500);
+    }
+  },
+
+  async send(message) {
+    await getSmtpTransporter().sendMail({ from: getFrom(), ...message });
+  }
+};
+
+const transports: Record<string, MailTransport> = {
+  [consoleMailTransport.name]: consoleMailTransport,
+  [fileMailTransport.name]: fileMailTransport,
+  [smtpMailTransport.name]: smtpMailTransport
+};
+
+// Register a transport so it can be selected with MAIL_TRANSPORT
+export const registerMailTransport = (transport: MailTransport): void => {
+  transports[transport.name] = transport;
+};
+
+export const getMailTransport = (name: string | undefined = process.env.MAIL_TRANSPORT): MailTransport => {
+  const isProduction = process.env.NODE_ENV === 'production';
+  if (!name) {
+    if (isProduction) {
+      throw new ErrorResponse('MAIL_TRANSPORT must be set in production', 500);
+    }
+    name = 'console';
+  }
+
+  const transport = transports[name];
+  if (!transport) {
+    throw new ErrorResponse(`Unknown mail transport ${name}`, 500);
+  }
+  if (transport.developmentOnly && isProduction) {
+    throw new ErrorResponse(`Mail transport ${name} is not allowed in production`, 500);
+  }
+  return transport;
+};
+
+/**
+ * Throw when no usable mail transport is configured. Logins depend on email
+ * (two-factor setup codes), so production checks this at startup.
+ */
+export const assertMailConfigured = (): void => {
+  getMailTransport().checkConfig?.();
+};
+
+/**
+ * Send a message through the configured transport
+ */
+export const sendMail = (message: MailMessage): Promise<void> => getMailTransport().send(message);
@@ -0,0 +1,210 @@
+import { Types } from 'mongoose';
+import Notification, { INotification } from '../models/Notification';
+import NotificationDelivery, { DeliveryChannel, INotificationDelivery } from '../models/NotificationDelivery';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import { sendMail } from './mail';
+import { sendSms } from './sms';
+import { subscribe } from './events';
+
+type NotificationDocument = INotification & { _id: Types.ObjectId };
+type DeliveryDocument = INotificationDelivery & { _id: Types.ObjectId };
+
+interface Recipient {
+  _id: Types.ObjectId;
+  model: 'User' | 'Worker';
+  email: string;
+  phone: string;
+  channels: DeliveryChannel[];
+}
+
+// Sends one notification to one address on a channel
+type ChannelSender = (address: string, notification: NotificationDocument) => Promise<void>;
+
+const senders: Partial<Record<DeliveryChannel, ChannelSender>> = {
+  email: (address, notification) => sendMail({
+    to: address,
+    subject: notification.title,
+    text: notification.message
+  }),
+  sms: (address, notification) => sendSms({
+    to: address,
+    text: `${notification.title}: ${notification.message}`
+  })
+};
+
+const getMaxAttempts = (): number =>
+  process.env.NOTIFICATION_MAX_ATTEMPTS ? parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS) : 3;
+
+const getRetryBaseSeconds = (): number =>
+  process.env.NOTIFICATION_RETRY_BASE_SECONDS ? parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS) : 60;
+
+const getRetryPollSeconds = (): number =>
+  process.env.NOTIFICATION_RETRY_POLL_SECONDS ? parseInt(process.env.NOTIFICATION_RETRY_POLL_SECONDS) : 60;
+
+// How long an attempt may take before another worker may pick the delivery up again
+const ATTEMPT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Look up targeted users and workers with the channels they opted into.
+ * Workers have no preference yet and are reached by email.
+ */
+const resolveRecipients = async (ids: Types.ObjectId[]): Promise<Recipient[]> => {
+  const users = await User.find({ _id: { $in: ids } }).select('email phone informationPreference');
+  const foundIds = new Set(users.map(user => user._id.toString()));
+  const workerIds = ids.filter(id => !foundIds.has(id.toString()));
+  const workers = workerIds.length > 0
+    ? await Worker.find({ _id: { $in: workerIds } }).select('email phone')
+    : [];
+
+  return [
+    ...users.map(user => ({
+      _id: user._id,
+      model: 'User' as const,
+      email: user.email,
+      phone: user.phone,
+      channels: user.informationPreference
+    })),
+    ...workers.map(worker => ({
+      _id: worker._id,
+      model: 'Worker' as const,
+      email: worker.email,
+      phone: worker.phone,
+      channels: ['email' as const]
+    }))
+  ];
+};
+
+/**
+ * Run one attempt of a delivery. The attempt is claimed atomically, so
+ * concurrent retry runs cannot send the same message twice.
+ */
+export const attemptDelivery = async (
+  deliveryId: Types.ObjectId,
+  notification?: NotificationDocument
+): Promise<DeliveryDocument | null> => {
+  const now = new Date();
+  const delivery = await NotificationDelivery.findOneAndUpdate(
+    {
+      _id: deliveryId,
+      status: 'pending',
+      $or: [{ nextAttemptAt: { $exists: false } }, { nextAttemptAt: { $lte: now } }]
+    },
+    { $inc: { attempts: 1 }, $set: { nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS) } },
+    { new: true }
+  );
+  if (!delivery) {
+    return null;
+  }
+
+  const message = notification ?? await Notification.findById(delivery.notificationId);
+  const sender = senders[delivery.channel];
+
+  try {
+    if (!message) {
+      throw new Error('Notification no longer exists');
+    }
+    if (!sender || !delivery.address) {
+      throw new Error(`No ${delivery.channel} sender or address available`);
+    }
+
+    await sender(delivery.address, message);
+
+    return NotificationDelivery.findByIdAndUpdate(
+      delivery._id,
+      { status: 'sent', sentAt: new Date(), $unset: { nextAttemptAt: 1, lastError: 1 } },
+      { new: true }
+    );
+  } catch (err) {
+    const lastError = (err instanceof Error ? err.message : String(err)).slice(0, 500);
+    const exhausted = !message || delivery.attempts >= delivery.maxAttempts;
+    // Back off exponentially between attempts
+    const delay = getRetryBaseSeconds() * 1000 * 2 ** (delivery.attempts - 1);
+
+    return NotificationDelivery.findByIdAndUpdate(
+      delivery._id,
+      exhausted
+        ? { status: 'failed', lastError, $unset: { nextAttemptAt: 1 } }
+        : { lastError, nextAttemptAt: new Date(Date.now() + delay) },
+      { new: true }
+    );
+  }
+};
+
+/**
+ * Send a notification over email and SMS to each targeted recipient, following
+ * their informationPreference. Global notifications stay in-app only.
+ */
+export const dispatchNotification = async (notification: NotificationDocument): Promise<void> => {
+  if (notification.isGlobal || notification.targetUsers.length === 0) {
+    return;
+  }
+
+  const recipients = await resolveRecipients(notification.targetUsers);
+  const maxAttempts = getMaxAttempts();
+
+  const deliveries = await Promise.all(recipients.flatMap(recipient =>
+    recipient.channels.map(channel => {
+      const address = channel === 'email' ? recipient.email : recipient.phone;
+      // Calls are made by staff, so they are recorded but not sent
+      const status = senders[channel] && address ? 'pending' : 'skipped';
+
+      return NotificationDelivery.findOneAndUpdate(
+        { notificationId: notification._id, recipientId: recipient._id, channel },
+        {
+          $setOnInsert: {
+            recipientModel: recipient.model,
+            address,
+            status,
+            maxAttempts,
+            lastError: status === 'skipped' ? `No ${channel} sender or address available` : undefined
+          }
+        },
+        { upsert: true, new: true }
+      );
+    })
+  ));
+
+  for (const delivery of deliveries) {
+    if (delivery?.status === 'pending') {
+      await attemptDelivery(delivery._id, notification);
+    }
+  }
+};
+
+/**
+ * Retry deliveries whose next attempt is due
+ */
+export const retryDueDeliveries = async (limit = 100): Promise<number> => {
+  const due = await NotificationDelivery.find({ status: 'pending', nextAttemptAt: { $lte: new Date() } })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit)
+    .select('_id');
+
+  for (const delivery of due) {
+    await attemptDelivery(delivery._id);
+  }
+  return due.length;
+};
+
+/**
+ * Send every new notification through the recipients' channels
+ */
+export const registerNotificationDispatcher = (): (() => void) =>
+  subscribe('notification.created', ({ notification }) => dispatchNotification(notification));
+
+/**
+ * Retry failed deliveries every NOTIFICATION_RETRY_POLL_SECONDS (0 disables retries)
+ */
+export const startNotificationRetryWorker = (): NodeJS.Timeout | null => {
+  const seconds = getRetryPollSeconds();
+  if (seconds <= 0) {
+    return null;
+  }
+
+  const timer = setInterval(() => {
+    retryDueDeliveries().catch(err => console.error('Error retrying notification deliveries:', err));
+  }, seconds * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,175 @@
+import { INotification } from '../models/Notification';
+import ErrorResponse from '../utils/errorResponse';
+import { getDefaultTimeZone } from '../utils/timezone';
+
+export interface TemplateVariant {
+  title: string;
+  message: string;
+}
+
+export interface NotificationTemplate {
+  type: INotification['type'];
+  // Keyed by language code; the default language variant is required
+  variants: Record<string, TemplateVariant>;
+}
+
+// Language, region and clock preferences of the person receiving a notification
+export interface RecipientLocale {
+  preferredLang?: string;
+  region?: string;
+  timeFormat?: '12' | '24';
+}
+
+export type TemplateVariables = Record<string, string | number | Date | undefined | null>;
+
+export interface RenderedNotification {
+  title: string;
+  message: string;
+  type: INotification['type'];
+}
+
+export const getDefaultLanguage = (): string => process.env.DEFAULT_LANGUAGE || 'en';
+
+const templates: Record<string, NotificationTemplate> = {
+  transfer_assigned: {
+    type: 'success',
+    variants: {
+      en: {
+        title: 'Driver assigned',
+        message: '{{workerName}} will handle your transfer from {{from}} to {{to}} on {{pickUpAt}}.'
+      },
+      ar: {
+        title: 'تم تعيين سائق',
+        message: 'سيتولى {{workerName}} نقل أمتعتك من {{from}} إلى {{to}} في {{pickUpAt}}.'
+      }
+    }
+  },
+  transfer_delayed: {
+    type: 'warning',
+    variants: {
+      en: {
+        title: 'Pickup time changed',
+        message: 'Flight {{flightNumber}} is delayed by {{delayMinutes}} minutes. Your pickup has been moved to {{pickUpAt}}.'
+      },
+      ar: {
+        title: 'تغيّر موعد الاستلام',
+        message: 'تأخرت الرحلة {{flightNumber}} بمقدار {{delayMinutes}} دقيقة. تم تغيير موعد الاستلام إلى {{pickUpAt}}.'
+      }
+    }
+  },
+  flight_on_time: {
+    type: 'info',
+    variants: {
+      en: {
+        title: 'Pickup time changed',
+        message: 'Flight {{flightNumber}} is back on schedule. Your pickup is at {{pickUpAt}}.'
+      },
+      ar: {
+        title: 'تغيّر موعد الاستلام',
+        message: 'عادت الرحلة {{flightNumber}} إلى موعدها. موعد الاستلام {{pickUpAt}}.'
+      }
+    }
+  },
+  flight_cancelled: {
+    type: 'warning',
+    variants: {
+      en: {
+        title: 'Flight cancelled',
+        message: 'Flight {{flightNumber}} has been cancelled. Please contact us to rearrange your pickup.'
+      },
+      ar: {
+        title: 'تم إلغاء الرحلة',
+        message: 'تم إلغاء الرحلة {{flightNumber}}. يرجى التواصل معنا لإعادة ترتيب موعد الاستلام.'
+      }
+    }
+  },
+  complaint_resolved: {
+    type: 'success',
+    variants: {
+      en: {
+        title: 'Complaint resolved',
+        message: 'Your complaint "{{title}}" was resolved on {{resolvedAt}}. {{resolution}}'
+      },
+      ar: {
+        title: 'تم حل الشكوى',
+        message: 'تم حل شكواك "{{title}}" في {{resolvedAt}}. {{resolution}}'
+      }
+    }
+  }
+};
+
+// Register or replace a template so it can be used with notifyFromTemplate
+export const registerNotificationTemplate = (key: string, template: NotificationTemplate): void => {
+  templates[key] = template;
+};
+
+export const getNotificationTemplate = (key: string): NotificationTemplate => {
+  const template = templates[key];
+  if (!template) {
+    throw new ErrorResponse(`Unknown notification template ${key}`, 500);
+  }
+  return template;
+};
+
+// Languages the templates are translated into; preferredLang must be one of them
+export const SUPPORTED_LANGUAGES = ['en', 'ar'];
+
+// "en" + "TR" -> "en-TR" when the runtime supports it, otherwise just the language.
+// Malformed tags make Intl throw, so they fall back to the default language.
+const toLocaleTag = (language: string, region?: string): string => {
+  try {
+    if (region && /^[a-z]{2}$/i.test(region)) {
+      const tag = `${language}-${region.toUpperCase()}`;
+      if (Intl.DateTimeFormat.supportedLocalesOf([tag]).length > 0) {
+        return tag;
+      }
+    }
+    return Intl.DateTimeFormat.supportedLocalesOf([language]).length > 0 ? language : getDefaultLanguage();
+  } catch (err) {
+    return getDefaultLanguage();
+  }
+};
+
+/**
+ * Format a date and time in the recipient's language, region and 12/24 hour clock
+ */
+export const formatDateForRecipient = (
+  date: Date,
+  locale: RecipientLocale,
+  timeZone: string = getDefaultTimeZone()
+): string =>
+  new Intl.DateTimeFormat(toLocaleTag(locale.preferredLang || getDefaultLanguage(), locale.region), {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    hourCycle: locale.timeFormat === '12' ? 'h12' : 'h23',
+    timeZone
+  }).format(date);
+
+/**
+ * Render a template in the recipient's language, falling back to the default
+ * language. `{{name}}` placeholders are replaced with the variables; dates are
+ * formatted for the recipient in the given time zone.
+ */
+export const renderNotificationTemplate = (
+  key: string,
+  variables: TemplateVariables,
+  locale: RecipientLocale,
+  timeZone?: string
+): RenderedNotification => {
+  const template = getNotificationTemplate(key);
+  const language = (locale.preferredLang || '').toLowerCase().split('-')[0];
+  const variant = template.variants[language] ?? template.variants[getDefaultLanguage()] ?? template.variants.en;
+
+  const interpolate = (text: string): string =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+      const value = variables[name];
+      if (value === undefined || value === null) return '';
+      return value instanceof Date ? formatDateForRecipient(value, locale, timeZone) : String(value);
+    }).trim();
+
+  return {
+    title: interpolate(variant.title),
+    message: interpolate(variant.message),
+    type: template.type
+  };
+};
@@ -0,0 +1,104 @@
+import { Types } from 'mongoose';
+import Notification, { INotification } from '../models/Notification';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import { publish } from './events';
+import { RecipientLocale, renderNotificationTemplate, TemplateVariables } from './notificationTemplates';
+
+export interface NotificationInput {
+  title: string;
+  message: string;
+  type?: INotification['type'];
+  targetUsers?: (Types.ObjectId | string)[];
+  isGlobal?: boolean;
+  // Empty for notifications generated by the system
+  createdBy?: Types.ObjectId | string;
+  template?: string;
+  expiresAt?: Date;
+}
+
+export interface TemplateNotificationOptions {
+  // Time zone dates are shown in, e.g. the transfer's pickUpTimezone
+  timeZone?: string;
+  createdBy?: Types.ObjectId | string;
+}
+
+/**
+ * Filter for the live notifications a user has not read yet
+ */
+export const unreadNotificationsFilter = (userId: Types.ObjectId | string) => {
+  const id = new Types.ObjectId(userId.toString());
+  return {
+    $or: [
+      { isGlobal: true },
+      { targetUsers: id }
+    ],
+    expiresAt: { $gt: new Date() },
+    'readBy.user': { $ne: id }
+  };
+};
+
+export const countUnreadNotifications = (userId: Types.ObjectId | string): Promise<number> =>
+  Notification.countDocuments(unreadNotificationsFilter(userId));
+
+/**
+ * Push the current unread count to all of the user's connected devices
+ */
+export const publishUnreadCount = async (userId: Types.ObjectId | string): Promise<void> => {
+  const count = await countUnreadNotifications(userId);
+  publish('notification.unread_count', { userId: userId.toString(), count });
+};
+
+/**
+ * Store a notification and publish notification.created so it is pushed live
+ */
+export const createNotification = async (input: NotificationInput) => {
+  const notification = await Notification.create(input);
+  publish('notification.created', { notification });
+
+  // Clients bump their badge on notification:new for global notifications,
+  // targeted users get their exact count
+  if (!notification.isGlobal) {
+    await Promise.all(notification.targetUsers.map(userId => publishUnreadCount(userId)));
+  }
+
+  return notification;
+};
+
+/**
+ * Send a templated notification to users or workers. Each recipient gets their
+ * own notification, rendered in their language with dates in their format.
+ */
+export const notifyFromTemplate = async (
+  template: string,
+  recipientIds: (Types.ObjectId | string | undefined)[],
+  variables: TemplateVariables,
+  options: TemplateNotificationOptions = {}
+) => {
+  const ids = [...new Set(recipientIds.filter(Boolean).map(id => id!.toString()))];
+  const localeFields = 'preferredLang region timeFormat';
+  const [users, workers] = await Promise.all([
+    User.find({ _id: { $in: ids } }).select(localeFields),
+    Worker.find({ _id: { $in: ids } }).select(localeFields)
+  ]);
+
+  const locales = new Map<string, RecipientLocale>();
+  [...users, ...workers].forEach(recipient => {
+    locales.set(recipient._id.toString(), {
+      preferredLang: recipient.preferredLang,
+      region: recipient.region,
+      timeFormat: recipient.timeFormat
+    });
+  });
+
+  return Promise.all(ids.map(id => {
+    const rendered = renderNotificationTemplate(template, variables, locales.get(id) ?? {}, options.timeZone);
+    return createNotification({
+      ...rendered,
+      targetUsers: [id],
+      isGlobal: false,
+      createdBy: options.createdBy,
+      template
+    });
+  }));
+};
@@ -0,0 +1,122 @@
+import { Types } from 'mongoose';
+import Order, { IOrderService } from '../models/Order';
+import { Service } from '../models/Service';
+import { TransferStatus } from '../models/Transfer';
+import ErrorResponse from '../utils/errorResponse';
+import { canTransition, TransferActor, TransferFieldChanges, WORKER_TARGET_STATUSES } from './transferStatus';
+
+export interface OrderServiceInput {
+  serviceId: string;
+  quantity?: number;
+}
+
+export interface PricedOrderServices {
+  services: IOrderService[];
+  totalAmount: number;
+}
+
+/**
+ * Look up the requested services and price the order from Service.price.
+ * Client-supplied prices are never used.
+ */
+export const priceOrderServices = async (input: OrderServiceInput[]): Promise<PricedOrderServices> => {
+  const ids = [...new Set(input.map(line => line.serviceId.toString()))];
+  // Archived services can no longer be booked
+  const catalog = await Service.find({ _id: { $in: ids }, isArchived: false });
+
+  const missing = ids.filter(id => !catalog.some(service => service._id.toString() === id));
+  if (missing.length > 0) {
+    throw new ErrorResponse(`Service not found or archived: ${missing.join(', ')}`, 404);
+  }
+
+  const services = input.map(line => {
+    const service = catalog.find(s => s._id.toString() === line.serviceId.toString())!;
+    return {
+      serviceId: service._id,
+      name: service.name,
+      price: service.price,
+      quantity: line.quantity ?? 1
+    };
+  });
+
+  const totalAmount = Math.round(
+    services.reduce((sum, line) => sum + line.price * line.quantity, 0) * 100
+  ) / 100;
+
+  return { services, totalAmount };
+};
+
+/**
+ * Move an order to a new status using the same rules as transfers: workers may
+ * only act on orders assigned to them and only move them forward; anyone else
+ * has to be an admin. `changes` are applied in the same update, so they are
+ * saved only if the status change is.
+ */
+export const transitionOrder = async (
+  orderId: Types.ObjectId | string,
+  to: TransferStatus,
+  actor: TransferActor,
+  reason?: string,
+  changes: TransferFieldChanges = {}
+) => {
+  const order = await Order.findById(orderId);
+
+  if (!order) {
+    throw new ErrorResponse('Order not found', 404);
+  }
+
+  if (actor.principal === 'worker') {
+    if (!order.workerId || order.workerId.toString() !== actor.id.toString()) {
+      throw new ErrorResponse('Not authorized to update this order', 403);
+    }
+    if (!WORKER_TARGET_STATUSES.includes(to)) {
+      throw new ErrorResponse(`Workers cannot change order status to ${to}`, 403);
+    }
+  } else if (actor.role !== 'admin') {
+    throw new ErrorResponse('Only admins or the assigned worker can change order status', 403);
+  }
+
+  const from = order.status;
+
+  if (!canTransition(from, to)) {
+    throw new ErrorResponse(`Cannot change order status from ${from} to ${to}`, 409);
+  }
+
+  const now = new Date();
+  const update: Record<string, unknown> = { ...changes.set, status: to };
+
+  if (to === 'completed') {
+    update.completedAt = now;
+  }
+  if (to === 'cancelled') {
+    update.cancelledAt = now;
+  }
+
+  // Match on the current status so concurrent updates cannot both apply
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, status: from },
+    {
+      $set: update,
+      ...(changes.unset?.length && {
+        $unset: Object.fromEntries(changes.unset.map(field => [field, 1]))
+      }),
+      $push: {
+        statusHistory: {
+          from,
+          to,
+          changedBy: new Types.ObjectId(actor.id.toString()),
+          changedByRole: actor.role,
+          reason,
+          changedAt: now
+        }
+      }
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!updated) {
+    throw new ErrorResponse('Order status was changed by another request, please retry', 409);
+  }
+
+  return updated;
+};
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import ErrorResponse from '../utils/errorResponse';
+
+export interface PaymentIntentResult {
+  providerRef: string;
+  clientSecret?: string;
+}
+
+export interface PaymentRefundResult {
+  providerRef: string;
+}
+
+export interface PaymentWebhookEvent {
+  type: 'payment.succeeded' | 'payment.failed';
+  providerRef: string;
+  amount?: number;
+  currency?: string;
+  reason?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent(amount: number, currency: string, metadata: Record<string, string>): Promise<PaymentIntentResult>;
+  refund(intentRef: string, amount: number): Promise<PaymentRefundResult>;
+  // Verify and parse a provider callback; throws a 401 ErrorResponse for bad signatures
+  parseWebhook(headers: IncomingHttpHeaders, rawBody: Buffer | undefined, body: unknown): PaymentWebhookEvent;
+}
+
+/**
+ * Local fake provider for development and tests.
+ * Webhooks are signed with an HMAC-SHA256 of the raw body in the x-local-signature header
+ * and are refused while PAYMENT_WEBHOOK_SECRET is unset.
+ */
+export const localPaymentProvider: PaymentProvider = {
+  name: 'local',
+
+  async createIntent() {
+    const providerRef = `local_pi_${crypto.randomBytes(12).toString('hex')}`;
+    return {
+      providerRef,
+      clientSecret: `${providerRef}_secret_${crypto.randomBytes(8).toString('hex')}`
+    };
+  },
+
+  async refund() {
+    return { providerRef: `local_re_${crypto.randomBytes(12).toString('hex')}` };
+  },
+
+  parseWebhook(headers, rawBody, body) {
+    const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new ErrorResponse('PAYMENT_WEBHOOK_SECRET must be set to accept webhooks', 500);
+    }
+
+    const signature = headers['x-local-signature'];
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(rawBody ?? '')
+      .digest('hex');
+
+    if (
+      typeof signature !== 'string' ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new ErrorResponse('Invalid webhook signature', 401);
+    }
+
+    const event = body as Partial<PaymentWebhookEvent>;
+    if (
+      !event ||
+      (event.type !== 'payment.succeeded' && event.type !== 'payment.failed') ||
+      typeof event.providerRef !== 'string'
+    ) {
+      throw new ErrorResponse('Invalid webhook payload', 400);
+    }
+
+    return {
+      type: event.type,
+      providerRef: event.providerRef,
+      amount: typeof event.amount === 'number' ? event.amount : undefined,
+      currency: typeof event.currency === 'string' ? event.currency : undefined,
+      reason: typeof event.reason === 'string' ? event.reason : undefined
+    };
+  }
+};
+
+const providers: Record<string, PaymentProvider> = {
+  [localPaymentProvider.name]: localPaymentProvider
+};
+
+// Register a provider so it can be selected with PAYMENT_PROVIDER
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers[provider.name] = provider;
+};
+
+export const getPaymentProvider = (name: string = process.env.PAYMENT_PROVIDER ?? 'local'): PaymentProvider => {
+  const provider = providers[name];
+  if (!provider) {
+    throw new ErrorResponse(`Unknown payment provider ${name}`, 404);
+  }
+  return provider;
+};
@@ -0,0 +1,249 @@
+import { IncomingHttpHeaders } from 'http';
+import { Types } from 'mongoose';
+import Payment from '../models/Payment';
+import Transfer, { ITransfer } from '../models/Transfer';
+import ErrorResponse from '../utils/errorResponse';
+import { PaymentRefundResult, getPaymentProvider } from './paymentProvider';
+
+export type PaymentStatus = ITransfer['paymentStatus'];
+
+// Allowed next payment statuses for each transfer payment status
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['paid', 'failed'],
+  failed: ['pending', 'paid'],
+  paid: ['refunded'],
+  refunded: []
+};
+
+export const canTransitionPayment = (from: PaymentStatus, to: PaymentStatus): boolean =>
+  PAYMENT_TRANSITIONS[from].includes(to);
+
+const getCurrency = (): string => process.env.PAYMENT_CURRENCY ?? 'USD';
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Move a transfer's payment status, matching on the current status so concurrent events cannot both apply
+const setPaymentStatus = async (
+  transferId: Types.ObjectId,
+  from: PaymentStatus,
+  to: PaymentStatus
+): Promise<void> => {
+  if (from === to) {
+    return;
+  }
+  if (!canTransitionPayment(from, to)) {
+    throw new ErrorResponse(`Cannot change payment status from ${from} to ${to}`, 409);
+  }
+
+  const updated = await Transfer.findOneAndUpdate(
+    { _id: transferId, paymentStatus: from },
+    { paymentStatus: to },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new ErrorResponse('Payment status was changed by another request, please retry', 409);
+  }
+};
+
+/**
+ * Get the payment ledger of a transfer, oldest entry first
+ */
+export const getTransferPayments = (transferId: Types.ObjectId | string) =>
+  Payment.find({ transferId }).sort('createdAt');
+
+/**
+ * Open a payment intent for the full transfer amount with the configured provider
+ */
+export const createPaymentIntent = async (
+  transferId: Types.ObjectId | string,
+  actorId: Types.ObjectId
+) => {
+  const transfer = await Transfer.findById(transferId);
+
+  if (!transfer) {
+    throw new ErrorResponse('Transfer not found', 404);
+  }
+  if (transfer.status === 'cancelled') {
+    throw new ErrorResponse('Cannot pay for a cancelled transfer', 409);
+  }
+  if (transfer.paymentStatus !== 'pending' && transfer.paymentStatus !== 'failed') {
+    throw new ErrorResponse(`Cannot start a payment for a ${transfer.paymentStatus} transfer`, 409);
+  }
+
+  const provider = getPaymentProvider();
+  const currency = getCurrency();
+  const intent = await provider.createIntent(transfer.totalAmount, currency, {
+    transferId: transfer._id.toString()
+  });
+
+  const payment = await Payment.create({
+    transferId: transfer._id,
+    userId: transfer.userId,
+    kind: 'intent',
+    amount: transfer.totalAmount,
+    currency,
+    provider: provider.name,
+    providerRef: intent.providerRef,
+    createdBy: actorId
+  });
+
+  // Retrying after a failure puts the transfer back to pending
+  await setPaymentStatus(transfer._id, transfer.paymentStatus, 'pending');
+
+  return { payment, clientSecret: intent.clientSecret };
+};
+
+/**
+ * Record a provider callback against its intent and move the transfer's payment status.
+ * Repeated deliveries of the same event are ignored; events whose amount or currency
+ * differ from the intent are rejected, and a second capture is recorded as a duplicate.
+ */
+export const handlePaymentWebhook = async (
+  providerName: string,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer | undefined,
+  body: unknown
+) => {
+  const provider = getPaymentProvider(providerName);
+  const event = provider.parseWebhook(headers, rawBody, body);
+  const kind = event.type === 'payment.succeeded' ? 'capture' : 'failure';
+
+  const existing = await Payment.findOne({ provider: provider.name, providerRef: event.providerRef, kind });
+  if (existing) {
+    return existing;
+  }
+
+  const intent = await Payment.findOne({ provider: provider.name, providerRef: event.providerRef, kind: 'intent' });
+  if (!intent) {
+    throw new ErrorResponse(`Payment intent not found with reference ${event.providerRef}`, 404);
+  }
+
+  // A capture for another amount or currency must not mark the transfer as paid
+  if (event.amount !== undefined && round(event.amount) !== round(intent.amount)) {
+    throw new ErrorResponse(`Webhook amount ${event.amount} does not match the payment intent amount ${intent.amount}`, 400);
+  }
+  if (event.currency !== undefined && event.currency.toUpperCase() !== intent.currency.toUpperCase()) {
+    throw new ErrorResponse(`Webhook currency ${event.currency} does not match the payment intent currency ${intent.currency}`, 400);
+  }
+
+  const transfer = await Transfer.findById(intent.transferId);
+  if (!transfer) {
+    throw new ErrorResponse('Transfer not found', 404);
+  }
+
+  const entry = {
+    transferId: intent.transferId,
+    userId: intent.userId,
+    kind,
+    amount: intent.amount,
+    currency: intent.currency,
+    provider: provider.name,
+    providerRef: event.providerRef,
+    intentRef: intent.providerRef,
+    reason: event.reason
+  };
+
+  // A capture of another intent on a transfer that is already settled charged the customer twice:
+  // record it flagged, leaving the payment status alone, so it can be found and refunded
+  if (kind === 'capture') {
+    const settled = await Payment.findOne({
+      transferId: intent.transferId,
+      kind: 'capture',
+      duplicateOf: { $exists: false }
+    });
+    if (settled) {
+      console.error(
+        `Duplicate capture ${event.providerRef} on transfer ${transfer._id}, already captured by ${settled.providerRef}`
+      );
+      return Payment.create({ ...entry, duplicateOf: settled.providerRef });
+    }
+  }
+
+  await setPaymentStatus(transfer._id, transfer.paymentStatus, kind === 'capture' ? 'paid' : 'failed');
+
+  return Payment.create(entry);
+};
+
+interface RefundOptions {
+  amount?: number;
+  reason?: string;
+  complaintId?: Types.ObjectId;
+  actorId: Types.ObjectId;
+}
+
+/**
+ * Refund a paid transfer, fully by default. The transfer becomes refunded once
+ * the whole captured amount has been returned.
+ */
+export const refundTransfer = async (
+  transferId: Types.ObjectId | string,
+  { amount, reason, complaintId, actorId }: RefundOptions
+) => {
+  const transfer = await Transfer.findById(transferId);
+
+  if (!transfer) {
+    throw new ErrorResponse('Transfer not found', 404);
+  }
+  if (transfer.paymentStatus !== 'paid') {
+    throw new ErrorResponse(`Cannot refund a transfer with payment status ${transfer.paymentStatus}`, 409);
+  }
+
+  const capture = await Payment.findOne({
+    transferId: transfer._id,
+    kind: 'capture',
+    duplicateOf: { $exists: false }
+  }).sort('-createdAt');
+  if (!capture) {
+    throw new ErrorResponse('No captured payment found for this transfer', 409);
+  }
+
+  const refunded = transfer.refundedAmount ?? 0;
+  const refundable = round(capture.amount - refunded);
+  const refundAmount = round(amount ?? refundable);
+
+  if (refundAmount <= 0 || refundAmount > refundable) {
+    throw new ErrorResponse(`Refund amount must be between 0 and ${refundable}`, 400);
+  }
+
+  // Reserve the amount before calling the provider, matching on the amount read above
+  // so concurrent refunds cannot both pass the check (older transfers have no field yet)
+  const reserved = await Transfer.findOneAndUpdate(
+    { _id: transfer._id, paymentStatus: 'paid', refundedAmount: refunded === 0 ? { $in: [0, null] } : refunded },
+    { $inc: { refundedAmount: refundAmount } },
+    { new: true }
+  );
+  if (!reserved) {
+    throw new ErrorResponse('Transfer was refunded by another request, please retry', 409);
+  }
+
+  const provider = getPaymentProvider(capture.provider);
+  let result: PaymentRefundResult;
+  try {
+    result = await provider.refund(capture.intentRef ?? capture.providerRef, refundAmount);
+  } catch (err) {
+    // Nothing was refunded, so free the reservation
+    await Transfer.updateOne({ _id: transfer._id }, { $inc: { refundedAmount: -refundAmount } });
+    throw err;
+  }
+
+  const payment = await Payment.create({
+    transferId: transfer._id,
+    userId: transfer.userId,
+    kind: 'refund',
+    amount: refundAmount,
+    currency: capture.currency,
+    provider: provider.name,
+    providerRef: result.providerRef,
+    intentRef: capture.intentRef,
+    complaintId,
+    reason,
+    createdBy: actorId
+  });
+
+  if (refundAmount === refundable) {
+    await setPaymentStatus(transfer._id, 'paid', 'refunded');
+  }
+
+  return payment;
+};
@@ -0,0 +1,121 @@
+import PricingConfig, { IPricingConfig } from '../models/PricingConfig';
+import { getDefaultTimeZone, zonedTimeToUtc } from '../utils/timezone';
+
+export interface PricingItem {
+  name?: string;
+  weight: number;
+  isBreakable?: boolean;
+}
+
+export interface PricingInput {
+  items: PricingItem[];
+  from: string;
+  to: string;
+  pickUpDate: Date | string;
+  pickUpTime: string;
+  pickUpTimezone?: string;
+}
+
+export interface PriceLine {
+  code: 'base' | 'items' | 'weight' | 'fragile' | 'route' | 'rush' | 'night';
+  label: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  lines: PriceLine[];
+  subtotal: number;
+  surcharges: number;
+  totalAmount: number;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const normalize = (location: string): string => location.trim().toLowerCase();
+
+/**
+ * Get the active pricing configuration, creating the default one on first use
+ */
+export const getPricingConfig = async () => {
+  const config = await PricingConfig.findOne();
+  return config ?? PricingConfig.create({});
+};
+
+// Combine pickUpDate and an "HH:mm" pickUpTime in the pickup time zone into a single instant
+export const getPickUpDateTime = (
+  pickUpDate: Date | string,
+  pickUpTime: string,
+  timeZone: string = getDefaultTimeZone()
+): Date => zonedTimeToUtc(pickUpDate, pickUpTime, timeZone);
+
+const isNightSlot = (hour: number, config: IPricingConfig): boolean => {
+  const { nightStartHour, nightEndHour } = config;
+  // The night window usually wraps around midnight (e.g. 22 -> 6)
+  return nightStartHour <= nightEndHour
+    ? hour >= nightStartHour && hour < nightEndHour
+    : hour >= nightStartHour || hour < nightEndHour;
+};
+
+const getRouteFee = (from: string, to: string, config: IPricingConfig): number => {
+  const route = config.routeRates.find(rate =>
+    (normalize(rate.from) === normalize(from) && normalize(rate.to) === normalize(to)) ||
+    (normalize(rate.from) === normalize(to) && normalize(rate.to) === normalize(from))
+  );
+  return route ? route.fee : config.defaultRouteFee;
+};
+
+/**
+ * Work out the itemised price of a transfer from the given rate tables
+ */
+export const calculateTransferPrice = (
+  input: PricingInput,
+  config: IPricingConfig,
+  now: Date = new Date()
+): PriceQuote => {
+  const totalWeight = input.items.reduce((sum, item) => sum + Number(item.weight || 0), 0);
+  const fragileCount = input.items.filter(item => item.isBreakable).length;
+
+  const lines: PriceLine[] = [
+    { code: 'base', label: 'Base fare', amount: config.baseFare },
+    { code: 'items', label: `${input.items.length} item(s)`, amount: input.items.length * config.perItemFee },
+    { code: 'weight', label: `${round(totalWeight)} kg`, amount: totalWeight * config.perKgRate },
+    { code: 'route', label: `${input.from} - ${input.to}`, amount: getRouteFee(input.from, input.to, config) }
+  ];
+
+  if (fragileCount > 0) {
+    lines.push({ code: 'fragile', label: `${fragileCount} fragile item(s)`, amount: fragileCount * config.fragileItemFee });
+  }
+
+  const subtotal = round(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  // Surcharges are a percentage of the subtotal
+  const pickUp = getPickUpDateTime(input.pickUpDate, input.pickUpTime, input.pickUpTimezone);
+  const hoursUntilPickUp = (pickUp.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  if (hoursUntilPickUp < config.rushWindowHours) {
+    lines.push({ code: 'rush', label: 'Rush pickup', amount: subtotal * config.rushSurchargePercent / 100 });
+  }
+  // Night hours are judged on the local pickup time
+  const pickUpHour = parseInt(input.pickUpTime.split(':')[0], 10) || 0;
+  if (isNightSlot(pickUpHour, config)) {
+    lines.push({ code: 'night', label: 'Night pickup', amount: subtotal * config.nightSurchargePercent / 100 });
+  }
+
+  const roundedLines = lines.map(line => ({ ...line, amount: round(line.amount) }));
+  const totalAmount = round(roundedLines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    lines: roundedLines,
+    subtotal,
+    surcharges: round(totalAmount - subtotal),
+    totalAmount
+  };
+};
+
+/**
+ * Price a transfer with the active pricing configuration
+ */
+export const quoteTransfer = async (input: PricingInput): Promise<PriceQuote> => {
+  const config = await getPricingConfig();
+  return calculateTransferPrice(input, config);
+};
@@ -0,0 +1,114 @@
+import { Model, Types } from 'mongoose';
+import User, { IUser } from '../models/User';
+import Worker, { IWorker } from '../models/Worker';
+import Transfer, { ITransfer } from '../models/Transfer';
+import Complaint, { IComplaint } from '../models/Complaint';
+import ErrorResponse from '../utils/errorResponse';
+import { MAX_SEARCH_LENGTH } from '../utils/listQuery';
+
+export type SearchType = 'user' | 'worker' | 'transfer' | 'complaint';
+
+export const SEARCH_TYPES: SearchType[] = ['user', 'worker', 'transfer', 'complaint'];
+
+export interface SearchHit {
+  type: SearchType;
+  id: string;
+  score: number;
+  title: string;
+  subtitle?: string;
+}
+
+// Document type searched for each search type
+interface SearchDocuments {
+  user: IUser;
+  worker: IWorker;
+  transfer: ITransfer;
+  complaint: IComplaint;
+}
+
+interface SearchSource<T> {
+  model: Model<T>;
+  // Fields returned for each hit (never secrets such as passwords)
+  select: string;
+  toHit: (doc: T) => Pick<SearchHit, 'title' | 'subtitle'>;
+}
+
+// Lean search result with the text score projected in
+type ScoredDocument<T> = T & { _id: Types.ObjectId; score: number };
+
+const SEARCH_SOURCES: { [K in SearchType]: SearchSource<SearchDocuments[K]> } = {
+  user: {
+    model: User,
+    select: 'name email phone role',
+    toHit: doc => ({ title: doc.name, subtitle: `${doc.email} (${doc.role})` })
+  },
+  worker: {
+    model: Worker,
+    select: 'name email phone specialization',
+    toHit: doc => ({ title: doc.name, subtitle: doc.specialization ? `${doc.email} - ${doc.specialization}` : doc.email })
+  },
+  transfer: {
+    model: Transfer,
+    select: 'from to flightNumber status items.name',
+    toHit: doc => ({
+      title: `${doc.from} -> ${doc.to}`,
+      subtitle: [doc.flightNumber, doc.status, doc.items?.map(item => item.name).join(', ')]
+        .filter(Boolean)
+        .join(' | ')
+    })
+  },
+  complaint: {
+    model: Complaint,
+    select: 'title status category',
+    toHit: doc => ({ title: doc.title, subtitle: `${doc.category} (${doc.status})` })
+  }
+};
+
+// Run the text search of one collection and turn its documents into hits
+const searchSource = async <K extends SearchType>(
+  type: K,
+  term: string,
+  limit: number
+): Promise<SearchHit[]> => {
+  const source: SearchSource<SearchDocuments[K]> = SEARCH_SOURCES[type];
+  const docs = await source.model
+    .find({ $text: { $search: term } }, { score: { $meta: 'textScore' } })
+    .select(source.select)
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit)
+    .lean<ScoredDocument<SearchDocuments[K]>[]>();
+
+  return docs.map(doc => ({
+    type,
+    id: doc._id.toString(),
+    score: doc.score,
+    ...source.toHit(doc)
+  }));
+};
+
+/**
+ * Full-text search across users, workers, transfers and complaints using the
+ * collections' text indexes. Hits from all collections are merged and ranked
+ * by their text score.
+ */
+export const searchAll = async (
+  q: string,
+  types: SearchType[] = SEARCH_TYPES,
+  limit = 20
+): Promise<SearchHit[]> => {
+  const term = q.trim();
+
+  if (!term) {
+    throw new ErrorResponse('Search term is required', 400);
+  }
+  if (term.length > MAX_SEARCH_LENGTH) {
+    throw new ErrorResponse(`Search term cannot be longer than ${MAX_SEARCH_LENGTH} characters`, 400);
+  }
+
+  const results = await Promise.all(types.map(type => searchSource(type, term, limit)));
+
+  return results
+    .flat()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
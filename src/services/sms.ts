@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import ErrorResponse from '../utils/errorResponse';
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+export interface SmsTransport {
+  name: string;
+  // Development transports expose message contents and are refused in production
+  developmentOnly?: boolean;
+  send(message: SmsMessage): Promise<void>;
+}
+
+const getSender = (): string => process.env.SMS_FROM ?? 'Baggs';
+
+/**
+ * Development transport that prints messages to the console
+ */
+export const consoleSmsTransport: SmsTransport = {
+  name: 'console',
+  developmentOnly: true,
+
+  async send(message) {
+    console.log(`[sms] From: ${getSender()}\n[sms] To: ${message.to}\n${message.text}`);
+  }
+};
+
+/**
+ * Development and test transport that writes each message as a JSON file to SMS_OUTBOX_DIR
+ */
+export const fileSmsTransport: SmsTransport = {
+  name: 'file',
+  developmentOnly: true,
+
+  async send(message) {
+    const outbox = process.env.SMS_OUTBOX_DIR ?? path.join(process.cwd(), 'sms-outbox');
+    await fs.mkdir(outbox, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(
+      path.join(outbox, fileName),
+      JSON.stringify({ from: getSender(), ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+};
+
+const transports: Record<string, SmsTransport> = {
+  [consoleSmsTransport.name]: consoleSmsTransport,
+  [fileSmsTransport.name]: fileSmsTransport
+};
+
+// Register a transport so it can be selected with SMS_TRANSPORT
+export const registerSmsTransport = (transport: SmsTransport): void => {
+  transports[transport.name] = transport;
+};
+
+export const getSmsTransport = (name: string | undefined = process.env.SMS_TRANSPORT): SmsTransport => {
+  const isProduction = process.env.NODE_ENV === 'production';
+  if (!name) {
+    if (isProduction) {
+      throw new ErrorResponse('SMS_TRANSPORT must be set in production', 500);
+    }
+    name = 'console';
+  }
+
+  const transport = transports[name];
+  if (!transport) {
+    throw new ErrorResponse(`Unknown SMS transport ${name}`, 500);
+  }
+  if (transport.developmentOnly && isProduction) {
+    throw new ErrorResponse(`SMS transport ${name} is not allowed in production`, 500);
+  }
+  return transport;
+};
+
+/**
+ * Send a message through the configured transport
+ */
+export const sendSms = (message: SmsMessage): Promise<void> => getSmsTransport().send(message);
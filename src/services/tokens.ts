@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { HydratedDocument, Types } from 'mongoose';
+import Session, { ISession, SessionRevokedReason } from '../models/Session';
+import ErrorResponse from '../utils/errorResponse';
+import { AuthPrincipal, AuthUser } from '../middleware/auth';
+import { isTwoFactorRequired } from './twoFactor';
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  refresh_expires_in: number;
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  role: string;
+  principal: AuthPrincipal;
+  sid: string;
+  typ: 'access';
+}
+
+interface RefreshTokenPayload {
+  id: string;
+  principal: AuthPrincipal;
+  sid: string;
+  jti: string;
+  typ: 'refresh';
+}
+
+// Client details stored with a session so users can recognise their devices
+export interface SessionMeta {
+  userAgent?: string;
+  ip?: string;
+}
+
+const getAccessSecret = (): string => process.env.JWT_SECRET ?? '';
+
+// Refresh tokens use their own secret so an access token can never pass as one
+const getRefreshSecret = (): string => process.env.JWT_REFRESH_SECRET ?? `${getAccessSecret()}:refresh`;
+
+const getAccessExpire = (): number =>
+  process.env.JWT_EXPIRE ? parseInt(process.env.JWT_EXPIRE) : 3600; // 1 hour default
+
+const getRefreshExpire = (): number =>
+  process.env.JWT_REFRESH_EXPIRE ? parseInt(process.env.JWT_REFRESH_EXPIRE) : 604800; // 7 days default
+
+const newJti = (): string => crypto.randomBytes(16).toString('hex');
+
+const signTokens = (
+  user: AuthUser,
+  principal: AuthPrincipal,
+  sid: string,
+  jti: string
+): TokenResponse => {
+  const accessExpire = getAccessExpire();
+  const refreshExpire = getRefreshExpire();
+
+  const accessPayload: AccessTokenPayload = {
+    id: user._id.toString(),
+    role: user.role,
+    principal,
+    sid,
+    typ: 'access'
+  };
+  const refreshPayload: RefreshTokenPayload = {
+    id: user._id.toString(),
+    principal,
+    sid,
+    jti,
+    typ: 'refresh'
+  };
+
+  const accessOptions: SignOptions = { expiresIn: accessExpire };
+  const refreshOptions: SignOptions = { expiresIn: refreshExpire };
+
+  return {
+    access_token: jwt.sign(accessPayload, getAccessSecret(), accessOptions),
+    refresh_token: jwt.sign(refreshPayload, getRefreshSecret(), refreshOptions),
+    expires_in: Date.now() + accessExpire * 1000,
+    refresh_expires_in: Date.now() + refreshExpire * 1000
+  };
+};
+
+// Sessions of roles that require two-factor authentication must have passed it.
+// Sessions opened before that (e.g. before the requirement was rolled out) are revoked.
+const rejectUnverifiedSession = async (session: HydratedDocument<ISession>, role: string): Promise<void> => {
+  if (session.twoFactorVerified || !isTwoFactorRequired({ role })) {
+    return;
+  }
+
+  await Session.updateOne(
+    { _id: session._id, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: 'two_factor_required' }
+  );
+  throw new ErrorResponse('Two-factor authentication is required, please log in again', 401);
+};
+
+/**
+ * Start a new session and issue its first token pair. `twoFactorVerified` marks
+ * sessions opened through a two-factor challenge.
+ */
+export const issueTokens = async (
+  user: AuthUser,
+  principal: AuthPrincipal,
+  meta: SessionMeta = {},
+  twoFactorVerified = false
+): Promise<TokenResponse> => {
+  const jti = newJti();
+  const session = await Session.create({
+    principalId: user._id,
+    principal,
+    currentJti: jti,
+    userAgent: meta.userAgent,
+    ip: meta.ip,
+    twoFactorVerified,
+    expiresAt: new Date(Date.now() + getRefreshExpire() * 1000)
+  });
+
+  return signTokens(user, principal, session._id.toString(), jti);
+};
+
+export interface VerifiedAccessToken {
+  // Carries the account's current role, not the one it had when the token was signed
+  payload: AccessTokenPayload;
+  user: AuthUser;
+}
+
+/**
+ * Verify an access token, make sure its session is still active and load its account
+ */
+export const verifyAccessToken = async (
+  token: string,
+  loadUser: (id: string, principal: AuthPrincipal) => Promise<AuthUser | null>
+): Promise<VerifiedAccessToken> => {
+  const decoded = jwt.verify(token, getAccessSecret()) as Partial<AccessTokenPayload>;
+
+  if (decoded.typ !== 'access' || !decoded.sid || !decoded.id) {
+    throw new ErrorResponse('Not authorized to access this route', 401);
+  }
+
+  const session = await Session.findOne({ _id: decoded.sid, revokedAt: null, expiresAt: { $gt: new Date() } });
+  if (!session) {
+    throw new ErrorResponse('Session has been revoked', 401);
+  }
+
+  const principal: AuthPrincipal = decoded.principal === 'worker' ? 'worker' : 'user';
+  const user = await loadUser(decoded.id, principal);
+  if (!user) {
+    throw new ErrorResponse('User not found', 404);
+  }
+  // Checked against the current role, so a promotion takes effect right away
+  await rejectUnverifiedSession(session, user.role);
+
+  return {
+    payload: { id: decoded.id, sid: decoded.sid, typ: 'access', principal, role: user.role },
+    user
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. Each refresh token works once;
+ * presenting an already rotated token revokes the whole session.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  loadUser: (id: string, principal: AuthPrincipal) => Promise<AuthUser | null>,
+  meta: SessionMeta = {}
+): Promise<TokenResponse> => {
+  let decoded: Partial<RefreshTokenPayload>;
+  try {
+    decoded = jwt.verify(refreshToken, getRefreshSecret()) as Partial<RefreshTokenPayload>;
+  } catch (err) {
+    throw new ErrorResponse('Invalid refresh token', 401);
+  }
+
+  if (decoded.typ !== 'refresh' || !decoded.sid || !decoded.jti || !decoded.id || !decoded.principal) {
+    throw new ErrorResponse('Invalid refresh token', 401);
+  }
+
+  const jti = newJti();
+  const session = await Session.findOneAndUpdate(
+    { _id: decoded.sid, currentJti: decoded.jti, revokedAt: null },
+    {
+      currentJti: jti,
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + getRefreshExpire() * 1000),
+      ...(meta.userAgent && { userAgent: meta.userAgent }),
+      ...(meta.ip && { ip: meta.ip })
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    // A valid but already used token means it was stolen or replayed
+    await Session.updateOne(
+      { _id: decoded.sid, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: 'reuse_detected' }
+    );
+    throw new ErrorResponse('Invalid refresh token', 401);
+  }
+
+  const user = await loadUser(decoded.id, decoded.principal);
+  if (!user) {
+    throw new ErrorResponse('User not found', 404);
+  }
+  await rejectUnverifiedSession(session, user.role);
+
+  return signTokens(user, decoded.principal, session._id.toString(), jti);
+};
+
+/**
+ * Revoke a single session
+ */
+export const revokeSession = async (sessionId: Types.ObjectId | string): Promise<void> => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: 'logout' }
+  );
+};
+
+/**
+ * Revoke every active session of a user or worker, except `keepSessionId` when given
+ */
+export const revokeAllSessions = async (
+  principalId: Types.ObjectId | string,
+  principal: AuthPrincipal,
+  reason: SessionRevokedReason = 'logout_all',
+  keepSessionId?: Types.ObjectId | string
+): Promise<number> => {
+  const filter: Record<string, unknown> = { principalId, principal, revokedAt: null };
+  if (keepSessionId) {
+    filter._id = { $ne: keepSessionId };
+  }
+
+  const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+  return result.modifiedCount;
+};
+
+/**
+ * Active sessions of a user or worker, most recently used first
+ */
+export const listActiveSessions = (
+  principalId: Types.ObjectId | string,
+  principal: AuthPrincipal
+) =>
+  Session.find({ principalId, principal, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .select('userAgent ip lastUsedAt expiresAt createdAt')
+    .sort({ lastUsedAt: -1 });
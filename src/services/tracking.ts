@@ -0,0 +1,149 @@
+import { Types } from 'mongoose';
+import Transfer, { ITransferCoordinates } from '../models/Transfer';
+import WorkerLocation from '../models/WorkerLocation';
+import ErrorResponse from '../utils/errorResponse';
+
+export interface LocationInput {
+  transferId: string;
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  recordedAt?: Date | string;
+}
+
+export interface TransferEta {
+  distanceKm: number;
+  minutes: number;
+  arrivalAt: Date;
+}
+
+export interface LocationUpdate {
+  transferId: string;
+  workerId: string;
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  recordedAt: Date;
+  eta: TransferEta | null;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Used for the ETA when the worker's device does not report a usable speed
+const getAverageSpeedKmh = (): number =>
+  process.env.TRACKING_AVERAGE_SPEED_KMH ? parseFloat(process.env.TRACKING_AVERAGE_SPEED_KMH) : 40;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points in kilometers
+ */
+export const distanceKm = (a: ITransferCoordinates, b: ITransferCoordinates): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Estimate arrival at the destination from the current position. Reported
+ * speeds below walking pace fall back to TRACKING_AVERAGE_SPEED_KMH.
+ */
+export const estimateArrival = (
+  position: ITransferCoordinates,
+  destination: ITransferCoordinates,
+  speedMetersPerSecond?: number,
+  now: Date = new Date()
+): TransferEta => {
+  const distance = distanceKm(position, destination);
+  const reportedKmh = speedMetersPerSecond ? speedMetersPerSecond * 3.6 : 0;
+  const speedKmh = reportedKmh >= 5 ? reportedKmh : getAverageSpeedKmh();
+  const minutes = Math.ceil(distance / speedKmh * 60);
+
+  return {
+    distanceKm: Math.round(distance * 100) / 100,
+    minutes,
+    arrivalAt: new Date(now.getTime() + minutes * 60 * 1000)
+  };
+};
+
+const isValidCoordinate = (value: unknown, limit: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+/**
+ * Store a GPS position sent by the worker assigned to an in-progress transfer
+ * and work out the ETA to its destination
+ */
+export const recordWorkerLocation = async (
+  workerId: Types.ObjectId | string,
+  input: LocationInput
+): Promise<LocationUpdate> => {
+  if (!Types.ObjectId.isValid(input.transferId)) {
+    throw new ErrorResponse('Invalid transfer ID', 400);
+  }
+  if (!isValidCoordinate(input.lat, 90) || !isValidCoordinate(input.lng, 180)) {
+    throw new ErrorResponse('Latitude must be between -90 and 90 and longitude between -180 and 180', 400);
+  }
+
+  const transfer = await Transfer.findById(input.transferId);
+  if (!transfer) {
+    throw new ErrorResponse('Transfer not found', 404);
+  }
+  if (!transfer.workerId || transfer.workerId.toString() !== workerId.toString()) {
+    throw new ErrorResponse('Not authorized to share location for this transfer', 403);
+  }
+  if (transfer.status !== 'in_progress') {
+    throw new ErrorResponse('Location can only be shared while the transfer is in progress', 409);
+  }
+
+  // Device timestamps in the future are clamped to the server time
+  const now = new Date();
+  const reportedAt = input.recordedAt ? new Date(input.recordedAt) : now;
+  const recordedAt = isNaN(reportedAt.getTime()) || reportedAt > now ? now : reportedAt;
+
+  const location = await WorkerLocation.create({
+    transferId: transfer._id,
+    workerId: transfer.workerId,
+    location: { type: 'Point', coordinates: [input.lng, input.lat] },
+    accuracy: input.accuracy,
+    heading: input.heading,
+    speed: input.speed,
+    recordedAt
+  });
+
+  const position = { lat: input.lat, lng: input.lng };
+
+  return {
+    transferId: transfer._id.toString(),
+    workerId: transfer.workerId.toString(),
+    ...position,
+    accuracy: location.accuracy,
+    heading: location.heading,
+    speed: location.speed,
+    recordedAt,
+    eta: transfer.toCoordinates ? estimateArrival(position, transfer.toCoordinates, input.speed, now) : null
+  };
+};
+
+/**
+ * Breadcrumb trail of a transfer, oldest position first
+ */
+export const getTransferTrail = async (transferId: Types.ObjectId | string) => {
+  const locations = await WorkerLocation.find({ transferId })
+    .sort({ recordedAt: 1 })
+    .lean();
+
+  return locations.map(location => ({
+    lat: location.location.coordinates[1],
+    lng: location.location.coordinates[0],
+    accuracy: location.accuracy,
+    heading: location.heading,
+    speed: location.speed,
+    recordedAt: location.recordedAt
+  }));
+};
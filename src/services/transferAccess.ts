@@ -0,0 +1,34 @@
+import { Types } from 'mongoose';
+import Transfer from '../models/Transfer';
+import ErrorResponse from '../utils/errorResponse';
+import { TransferActor } from './transferStatus';
+
+/**
+ * Load a transfer the actor is allowed to follow: admins see every transfer,
+ * workers the ones assigned to them and customers their own. Throws a 404 or
+ * 403 ErrorResponse otherwise.
+ */
+export const getAccessibleTransfer = async (
+  transferId: Types.ObjectId | string,
+  actor: TransferActor
+) => {
+  if (!Types.ObjectId.isValid(transferId.toString())) {
+    throw new ErrorResponse('Invalid transfer ID', 400);
+  }
+
+  const transfer = await Transfer.findById(transferId);
+  if (!transfer) {
+    throw new ErrorResponse('Transfer not found', 404);
+  }
+
+  if (actor.role === 'admin') {
+    return transfer;
+  }
+
+  const ownerId = actor.principal === 'worker' ? transfer.workerId : transfer.userId;
+  if (!ownerId || ownerId.toString() !== actor.id.toString()) {
+    throw new ErrorResponse('Not authorized to access this transfer', 403);
+  }
+
+  return transfer;
+};
@@ -0,0 +1,87 @@
+import { Types } from 'mongoose';
+import Transfer, { ITransfer } from '../models/Transfer';
+import Worker from '../models/Worker';
+import ErrorResponse from '../utils/errorResponse';
+import { publish } from './events';
+
+export interface TransferRatingInput {
+  rating: number;
+  comment?: string;
+}
+
+/**
+ * Rate a completed transfer as its owning customer. A transfer can only be
+ * rated once; the assigned worker's ratings are then recomputed from their transfers.
+ */
+export const rateTransfer = async (
+  transferId: Types.ObjectId | string,
+  customerId: Types.ObjectId | string,
+  input: TransferRatingInput
+): Promise<ITransfer & { _id: Types.ObjectId }> => {
+  const rating = {
+    rating: input.rating,
+    comment: input.comment,
+    createdAt: new Date()
+  };
+
+  // Only the first request can set the rating
+  const transfer = await Transfer.findOneAndUpdate(
+    { _id: transferId, userId: customerId, status: 'completed', rating: { $exists: false } },
+    { $set: { rating } },
+    { new: true, runValidators: true }
+  );
+
+  if (!transfer) {
+    const existing = await Transfer.findById(transferId);
+    if (!existing) {
+      throw new ErrorResponse('Transfer not found', 404);
+    }
+    if (existing.userId?.toString() !== customerId.toString()) {
+      throw new ErrorResponse('Not authorized to rate this transfer', 403);
+    }
+    if (existing.status !== 'completed') {
+      throw new ErrorResponse('Only completed transfers can be rated', 409);
+    }
+    throw new ErrorResponse('Transfer has already been rated', 409);
+  }
+
+  if (transfer.workerId) {
+    // The rating is saved either way; a worker missed here catches up on their next refresh
+    await refreshWorkerStats(transfer.workerId)
+      .catch(err => console.error('Error refreshing worker ratings:', err));
+  }
+
+  publish('transfer.updated', { transfer, change: 'rated', actorId: customerId.toString() });
+
+  return transfer;
+};
+
+/**
+ * Recompute a worker's completed job count, service ratings and average rating
+ * from their completed transfers and store them in one update. The transfers are
+ * the source of truth, so any later refresh repairs a worker an earlier failure missed.
+ */
+export const refreshWorkerStats = async (workerId: Types.ObjectId | string): Promise<void> => {
+  const completed = await Transfer.find({ workerId, status: 'completed' }).select('rating').lean();
+
+  const serviceRatings = completed.flatMap(transfer => transfer.rating
+    ? [{
+        transferId: transfer._id,
+        rating: transfer.rating.rating,
+        comment: transfer.rating.comment,
+        createdAt: transfer.rating.createdAt
+      }]
+    : []);
+  const average = serviceRatings.length > 0
+    ? serviceRatings.reduce((sum, entry) => sum + entry.rating, 0) / serviceRatings.length
+    : 0;
+
+  await Worker.updateOne(
+    { _id: workerId },
+    {
+      completedJobs: completed.length,
+      serviceRatings,
+      rating: Math.round(average * 100) / 100
+    }
+  );
+};
@@ -0,0 +1,119 @@
+import { Types } from 'mongoose';
+import Transfer, { TransferStatus } from '../models/Transfer';
+import ErrorResponse from '../utils/errorResponse';
+import { AuthPrincipal } from '../middleware/auth';
+import { refreshWorkerLoad } from './dispatch';
+import { refreshWorkerStats } from './transferRating';
+import { publish } from './events';
+
+export interface TransferActor {
+  id: Types.ObjectId | string;
+  role: string;
+  principal?: AuthPrincipal;
+}
+
+// Other field edits saved together with a status change
+export interface TransferFieldChanges {
+  set?: Record<string, unknown>;
+  unset?: string[];
+}
+
+// Allowed next statuses for each transfer status
+export const TRANSFER_TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+  pending: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+// Statuses a worker may move its own assigned transfers to
+export const WORKER_TARGET_STATUSES: TransferStatus[] = ['in_progress', 'completed'];
+
+export const canTransition = (from: TransferStatus, to: TransferStatus): boolean =>
+  TRANSFER_TRANSITIONS[from].includes(to);
+
+/**
+ * Move a transfer to a new status, recording the change in its status history.
+ * Only admins and the assigned worker may do so (403). Throws a 409
+ * ErrorResponse when the transition is not allowed. `changes` are applied in
+ * the same update, so they are saved only if the status change is.
+ */
+export const transitionTransfer = async (
+  transferId: Types.ObjectId | string,
+  to: TransferStatus,
+  actor: TransferActor,
+  reason?: string,
+  changes: TransferFieldChanges = {}
+) => {
+  const transfer = await Transfer.findById(transferId);
+
+  if (!transfer) {
+    throw new ErrorResponse('Transfer not found', 404);
+  }
+
+  if (actor.principal === 'worker') {
+    if (!transfer.workerId || transfer.workerId.toString() !== actor.id.toString()) {
+      throw new ErrorResponse('Not authorized to update this transfer', 403);
+    }
+    if (!WORKER_TARGET_STATUSES.includes(to)) {
+      throw new ErrorResponse(`Workers cannot change transfer status to ${to}`, 403);
+    }
+  } else if (actor.role !== 'admin') {
+    throw new ErrorResponse('Only admins or the assigned worker can change transfer status', 403);
+  }
+
+  const from = transfer.status;
+
+  if (!canTransition(from, to)) {
+    throw new ErrorResponse(`Cannot change transfer status from ${from} to ${to}`, 409);
+  }
+
+  const now = new Date();
+  const update: Record<string, unknown> = { ...changes.set, status: to };
+
+  if (to === 'completed') {
+    update.completedAt = now;
+  }
+  if (to === 'cancelled') {
+    update.cancelledAt = now;
+  }
+
+  // Match on the current status so concurrent updates cannot both apply
+  const updated = await Transfer.findOneAndUpdate(
+    { _id: transfer._id, status: from },
+    {
+      $set: update,
+      ...(changes.unset?.length && {
+        $unset: Object.fromEntries(changes.unset.map(field => [field, 1]))
+      }),
+      $push: {
+        statusHistory: {
+          from,
+          to,
+          changedBy: new Types.ObjectId(actor.id.toString()),
+          changedByRole: actor.role,
+          reason,
+          changedAt: now
+        }
+      }
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!updated) {
+    throw new ErrorResponse('Transfer status was changed by another request, please retry', 409);
+  }
+
+  // A finished transfer frees up capacity for its worker
+  if (updated.workerId && (to === 'completed' || to === 'cancelled')) {
+    await refreshWorkerLoad(updated.workerId);
+  }
+  // Completed jobs count whether or not the customer rates them
+  if (updated.workerId && to === 'completed') {
+    await refreshWorkerStats(updated.workerId);
+  }
+
+  publish('transfer.updated', { transfer: updated, change: 'status', actorId: actor.id.toString() });
+
+  return updated;
+};
@@ -0,0 +1,287 @@
+import { FilterQuery, HydratedDocument, Model, PipelineStage, Types, UpdateQuery } from 'mongoose';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import Transfer from '../models/Transfer';
+import Complaint from '../models/Complaint';
+import Session from '../models/Session';
+import TwoFactor from '../models/TwoFactor';
+import AccountToken from '../models/AccountToken';
+import Notification from '../models/Notification';
+import NotificationDelivery from '../models/NotificationDelivery';
+import WorkerLocation from '../models/WorkerLocation';
+import { ISoftDelete } from '../models/plugins/softDelete';
+import ErrorResponse from '../utils/errorResponse';
+import { ListQueryOptions, ListResult, parseListQuery, runListQuery } from '../utils/listQuery';
+
+export type PurgeMode = 'anonymise' | 'delete';
+
+// Documents purged per collection and run, keeps each run short
+const PURGE_BATCH_SIZE = 500;
+
+export const TRASH_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['deletedAt', 'createdAt'],
+  defaultSort: 'deletedAt',
+  filters: {
+    deletedBy: 'exact',
+    deletedAt: 'dateRange'
+  }
+};
+
+const getRetentionDays = (): number =>
+  process.env.SOFT_DELETE_RETENTION_DAYS ? parseInt(process.env.SOFT_DELETE_RETENTION_DAYS) : 30;
+
+const getPurgeMode = (): PurgeMode =>
+  process.env.SOFT_DELETE_PURGE_MODE === 'delete' ? 'delete' : 'anonymise';
+
+const getPollMinutes = (): number =>
+  process.env.SOFT_DELETE_PURGE_POLL_MINUTES ? parseInt(process.env.SOFT_DELETE_PURGE_POLL_MINUTES) : 60;
+
+interface DuplicateKeyError {
+  code: 11000;
+  keyValue?: Record<string, unknown>;
+}
+
+const isDuplicateKeyError = (err: unknown): err is DuplicateKeyError =>
+  typeof err === 'object' && err !== null && (err as { code?: unknown }).code === 11000;
+
+/**
+ * Mark a document as deleted. Returns null when it does not exist or is
+ * already deleted.
+ */
+export const softDelete = <T>(
+  model: Model<T>,
+  id: Types.ObjectId | string,
+  deletedBy: Types.ObjectId
+) =>
+  model.findOneAndUpdate(
+    { _id: id, deletedAt: null },
+    { deletedAt: new Date(), deletedBy },
+    { new: true }
+  );
+
+/**
+ * Bring a deleted document back. Returns null when it is not in the trash and
+ * throws a 409 ErrorResponse when the purge job already anonymised it.
+ */
+export const restoreDeleted = async <T>(model: Model<T>, id: Types.ObjectId | string) => {
+  const deleted = await model.findOne({ _id: id, deletedAt: { $ne: null } });
+  if (!deleted) {
+    return null;
+  }
+  if (deleted.get('anonymisedAt')) {
+    throw new ErrorResponse('This record was anonymised and can no longer be restored', 409);
+  }
+
+  try {
+    return await model.findOneAndUpdate(
+      { _id: id, deletedAt: { $ne: null } },
+      { $unset: { deletedAt: 1, deletedBy: 1 } },
+      { new: true }
+    );
+  } catch (err) {
+    // A unique value such as the email was taken by a new record in the meantime
+    if (isDuplicateKeyError(err)) {
+      const field = Object.keys(err.keyValue ?? {})[0] ?? 'a unique field';
+      throw new ErrorResponse(`Cannot restore: another record already uses this ${field}`, 409);
+    }
+    throw err;
+  }
+};
+
+/**
+ * Throw a 409 ErrorResponse when a deleted account still holds the email.
+ * Deleted accounts keep their unique email until the purge job anonymises or
+ * removes them, so creating a new account with it would fail.
+ */
+export const assertEmailNotInTrash = async <T>(model: Model<T>, email?: string) => {
+  if (!email) {
+    return;
+  }
+  const filter = { email: email.trim().toLowerCase(), deletedAt: { $ne: null } } as FilterQuery<T>;
+  if (await model.exists(filter)) {
+    throw new ErrorResponse(
+      'This email belongs to a deleted account. Restore that account or wait until it is purged',
+      409
+    );
+  }
+};
+
+/**
+ * List deleted documents, most recently deleted first
+ */
+export const listDeleted = <T>(
+  model: Model<T>,
+  query: Record<string, unknown>
+): Promise<ListResult<HydratedDocument<T>>> =>
+  runListQuery<T>(model, { deletedAt: { $ne: null } }, parseListQuery(query, TRASH_LIST_OPTIONS));
+
+interface PurgeTarget<T extends ISoftDelete> {
+  name: string;
+  model: Model<T>;
+  // Update pipeline that strips personal data but keeps the record for history
+  anonymise: (PipelineStage.Set | PipelineStage.Unset)[];
+  // Data that only exists for the purged documents; removed in both modes
+  cleanup?: (ids: Types.ObjectId[]) => Promise<unknown>;
+  // References other collections hold to the documents; removed before a hard delete
+  detach?: (ids: Types.ObjectId[]) => Promise<unknown>;
+}
+
+const anonymisedEmail = { $concat: ['deleted-', { $toString: '$_id' }, '@deleted.invalid'] };
+
+// Matches deleted and live documents alike, so references are detached from both
+const ANY_DELETION_STATE = { $or: [{ deletedAt: null }, { deletedAt: { $ne: null } }] };
+
+// Remove references to purged documents from transfers and complaints
+const unsetReferences = <T>(model: Model<T>, field: string, ids: Types.ObjectId[]) =>
+  model.updateMany(
+    { [field]: { $in: ids }, ...ANY_DELETION_STATE } as FilterQuery<T>,
+    { $unset: { [field]: 1 } } as UpdateQuery<T>
+  );
+
+/**
+ * Anonymise or hard-delete one batch of a target's documents deleted before the
+ * cutoff. Returns the number of documents purged.
+ */
+const purgeTarget = async <T extends ISoftDelete>(
+  target: PurgeTarget<T>,
+  mode: PurgeMode,
+  cutoff: Date,
+  now: Date
+): Promise<number> => {
+  const filter: FilterQuery<T> = { deletedAt: { $lte: cutoff } };
+  if (mode === 'anonymise') {
+    filter.anonymisedAt = null;
+  }
+
+  const docs = await target.model.find(filter).select('_id').limit(PURGE_BATCH_SIZE).lean();
+  const ids = docs.map(doc => doc._id as Types.ObjectId);
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  await target.cleanup?.(ids);
+
+  if (mode === 'delete') {
+    await target.detach?.(ids);
+    await target.model.deleteMany({ _id: { $in: ids } });
+  } else {
+    await target.model.updateMany(
+      { _id: { $in: ids }, deletedAt: { $ne: null } },
+      [...target.anonymise, { $set: { anonymisedAt: now } }]
+    );
+  }
+
+  return ids.length;
+};
+
+// Binds each target to its own document type, so targets of different models share one list
+const definePurgeTarget = <T extends ISoftDelete>(target: PurgeTarget<T>) => ({
+  name: target.name,
+  purge: (mode: PurgeMode, cutoff: Date, now: Date) => purgeTarget(target, mode, cutoff, now)
+});
+
+const PURGE_TARGETS = [
+  definePurgeTarget({
+    name: 'users',
+    model: User,
+    anonymise: [
+      { $set: { name: 'Deleted user', email: anonymisedEmail, phone: '', password: '', emailVerified: false } },
+      { $unset: ['identityNumber', 'address', 'image', 'region'] }
+    ],
+    cleanup: ids => Promise.all([
+      Session.deleteMany({ principalId: { $in: ids }, principal: 'user' }),
+      TwoFactor.deleteMany({ principalId: { $in: ids }, principal: 'user' }),
+      AccountToken.deleteMany({ userId: { $in: ids } })
+    ]),
+    detach: ids => Promise.all([
+      Notification.updateMany({ targetUsers: { $in: ids } }, { $pull: { targetUsers: { $in: ids } } }),
+      NotificationDelivery.deleteMany({ recipientId: { $in: ids } }),
+      unsetReferences(Transfer, 'userId', ids),
+      unsetReferences(Complaint, 'userId', ids)
+    ])
+  }),
+  definePurgeTarget({
+    name: 'workers',
+    model: Worker,
+    anonymise: [
+      { $set: { name: 'Deleted worker', email: anonymisedEmail, phone: '', password: '', certificates: [] } },
+      { $unset: ['identityNumber', 'image', 'region'] }
+    ],
+    cleanup: ids => Promise.all([
+      Session.deleteMany({ principalId: { $in: ids }, principal: 'worker' }),
+      TwoFactor.deleteMany({ principalId: { $in: ids }, principal: 'worker' }),
+      WorkerLocation.deleteMany({ workerId: { $in: ids } })
+    ]),
+    detach: ids => Promise.all([
+      NotificationDelivery.deleteMany({ recipientId: { $in: ids } }),
+      unsetReferences(Transfer, 'workerId', ids),
+      unsetReferences(Complaint, 'relatedWorkerId', ids)
+    ])
+  }),
+  definePurgeTarget({
+    name: 'transfers',
+    model: Transfer,
+    anonymise: [
+      {
+        $set: {
+          from: 'Deleted',
+          to: 'Deleted',
+          items: { $map: { input: '$items', in: { $mergeObjects: ['$$this', { images: [] }] } } }
+        }
+      },
+      { $unset: ['toCoordinates', 'flightNumber', 'flightGate', 'rating.comment'] }
+    ],
+    cleanup: ids => WorkerLocation.deleteMany({ transferId: { $in: ids } })
+  }),
+  definePurgeTarget({
+    name: 'complaints',
+    model: Complaint,
+    anonymise: [
+      {
+        $set: {
+          title: 'Deleted complaint',
+          description: '',
+          attachments: [],
+          responses: {
+            $map: { input: '$responses', in: { $mergeObjects: ['$$this', { message: '', attachments: [] }] } }
+          }
+        }
+      },
+      { $unset: ['resolution'] }
+    ],
+    detach: ids => unsetReferences(Transfer, 'complaintId', ids)
+  })
+];
+
+/**
+ * Anonymise or hard-delete (SOFT_DELETE_PURGE_MODE) documents that have been
+ * in the trash longer than SOFT_DELETE_RETENTION_DAYS. Returns the number of
+ * documents purged per collection.
+ */
+export const purgeDeletedDocuments = async (now: Date = new Date()): Promise<Record<string, number>> => {
+  const mode = getPurgeMode();
+  const cutoff = new Date(now.getTime() - getRetentionDays() * 24 * 60 * 60 * 1000);
+  const summary: Record<string, number> = {};
+
+  for (const target of PURGE_TARGETS) {
+    summary[target.name] = await target.purge(mode, cutoff, now);
+  }
+
+  return summary;
+};
+
+/**
+ * Purge expired trash every SOFT_DELETE_PURGE_POLL_MINUTES (0 disables the job)
+ */
+export const startTrashPurge = (): NodeJS.Timeout | null => {
+  const minutes = getPollMinutes();
+  if (minutes <= 0) {
+    return null;
+  }
+
+  const timer = setInterval(() => {
+    purgeDeletedDocuments().catch(err => console.error('Error purging deleted records:', err));
+  }, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import TwoFactor from '../models/TwoFactor';
+import Session from '../models/Session';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import ErrorResponse from '../utils/errorResponse';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { AuthPrincipal, AuthUser } from '../middleware/auth';
+import { sendMail } from './mail';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  // The account must enrol before it can finish logging in
+  enrolment_required: boolean;
+  challenge_token: string;
+  expires_in: number;
+}
+
+interface ChallengeTokenPayload {
+  id: string;
+  principal: AuthPrincipal;
+  typ: '2fa_challenge';
+  // HMAC of the code emailed for a mandatory enrolment
+  enc?: string;
+}
+
+export interface VerifiedChallenge {
+  id: string;
+  principal: AuthPrincipal;
+  enrolmentCodeHash?: string;
+}
+
+const BACKUP_CODE_COUNT = 10;
+
+const getIssuer = (): string => process.env.TWO_FACTOR_ISSUER ?? 'Baggs';
+
+// Roles that cannot log in without a second factor
+const getRequiredRoles = (): string[] =>
+  (process.env.TWO_FACTOR_REQUIRED_ROLES ?? 'admin').split(',').map(role => role.trim()).filter(Boolean);
+
+const getChallengeExpire = (): number =>
+  process.env.TWO_FACTOR_CHALLENGE_EXPIRE ? parseInt(process.env.TWO_FACTOR_CHALLENGE_EXPIRE) : 300; // 5 minutes default
+
+// Challenge tokens use their own secret so they can never pass as access or refresh tokens
+const getChallengeSecret = (): string => `${process.env.JWT_SECRET ?? ''}:2fa`;
+
+// Secrets are encrypted at rest with AES-256-GCM
+const getEncryptionKey = (): Buffer =>
+  crypto.createHash('sha256')
+    .update(process.env.TWO_FACTOR_ENCRYPTION_KEY ?? process.env.JWT_SECRET ?? '')
+    .digest();
+
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const normalizeBackupCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashBackupCode = (code: string): string =>
+  crypto.createHash('sha256').update(normalizeBackupCode(code)).digest('hex');
+
+// Keyed with the challenge secret, so the hash in a challenge token cannot be brute-forced offline
+const hashEnrolmentCode = (code: string): string =>
+  crypto.createHmac('sha256', getChallengeSecret()).update(normalizeBackupCode(code)).digest('hex');
+
+const createCode = (): string => {
+  const raw = crypto.randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+// New backup codes in plain text (shown once) and their hashes (stored)
+const createBackupCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, createCode);
+  return { codes, hashes: codes.map(hashBackupCode) };
+};
+
+export const isTwoFactorRequired = (account: { role: string }): boolean =>
+  getRequiredRoles().includes(account.role);
+
+export const getTwoFactorStatus = async (
+  account: AuthUser,
+  principal: AuthPrincipal
+): Promise<TwoFactorStatus> => {
+  const record = await TwoFactor.findOne({ principalId: account._id, principal }).select('+backupCodes');
+  const enabled = Boolean(record?.enabledAt);
+
+  return {
+    enabled,
+    required: isTwoFactorRequired(account),
+    backupCodesRemaining: enabled ? record!.backupCodes.length : 0
+  };
+};
+
+/**
+ * Create a new secret for the account. It only takes effect once confirmed with
+ * confirmTwoFactorEnrolment; starting again replaces an unconfirmed secret.
+ */
+export const startTwoFactorEnrolment = async (
+  account: AuthUser,
+  principal: AuthPrincipal
+): Promise<TwoFactorEnrolment> => {
+  const existing = await TwoFactor.findOne({ principalId: account._id, principal });
+  if (existing?.enabledAt) {
+    throw new ErrorResponse('Two-factor authentication is already enabled', 409);
+  }
+
+  const secret = generateTotpSecret();
+  await TwoFactor.findOneAndUpdate(
+    { principalId: account._id, principal },
+    { secret: encryptSecret(secret), backupCodes: [], $unset: { enabledAt: 1, lastUsedStep: 1 } },
+    { upsert: true }
+  );
+
+  return {
+    secret,
+    otpauth_url: buildOtpauthUrl(secret, account.email, getIssuer())
+  };
+};
+
+/**
+ * Enable two-factor authentication with the first code from the authenticator
+ * app. Returns the backup codes, which are never shown again.
+ */
+export const confirmTwoFactorEnrolment = async (
+  principalId: Types.ObjectId | string,
+  principal: AuthPrincipal,
+  code: string
+): Promise<string[]> => {
+  const record = await TwoFactor.findOne({ principalId, principal }).select('+secret');
+  if (!record || record.enabledAt) {
+    throw new ErrorResponse('No two-factor enrolment is pending', 400);
+  }
+
+  const step = verifyTotp(decryptSecret(record.secret), code);
+  if (step === null) {
+    throw new ErrorResponse('Invalid verification code', 400);
+  }
+
+  const { codes, hashes } = createBackupCodes();
+  record.enabledAt = new Date();
+  record.lastUsedStep = step;
+  record.backupCodes = hashes;
+  await record.save();
+
+  return codes;
+};
+
+/**
+ * Check a TOTP code or a backup code for an account with two-factor
+ * authentication enabled. Each TOTP step and each backup code works once.
+ */
+export const verifyTwoFactorCode = async (
+  principalId: Types.ObjectId | string,
+  principal: AuthPrincipal,
+  code: string
+): Promise<boolean> => {
+  const record = await TwoFactor.findOne({ principalId, principal, enabledAt: { $ne: null } }).select('+secret');
+  if (!record) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(record.secret), code);
+  if (step !== null) {
+    const result = await TwoFactor.updateOne(
+      {
+        _id: record._id,
+        $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }]
+      },
+      { lastUsedStep: step }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  const hash = hashBackupCode(code);
+  const result = await TwoFactor.updateOne(
+    { _id: record._id, backupCodes: hash },
+    { $pull: { backupCodes: hash } }
+  );
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Replace the backup codes of an account with a fresh set
+ */
+export const regenerateBackupCodes = async (
+  principalId: Types.ObjectId | string,
+  principal: AuthPrincipal
+): Promise<string[]> => {
+  const { codes, hashes } = createBackupCodes();
+  const result = await TwoFactor.updateOne(
+    { principalId, principal, enabledAt: { $ne: null } },
+    { backupCodes: hashes }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new ErrorResponse('Two-factor authentication is not enabled', 400);
+  }
+
+  return codes;
+};
+
+export const disableTwoFactor = async (account: AuthUser, principal: AuthPrincipal): Promise<void> => {
+  if (isTwoFactorRequired(account)) {
+    throw new ErrorResponse(`Two-factor authentication is mandatory for ${account.role} accounts`, 403);
+  }
+
+  await TwoFactor.deleteOne({ principalId: account._id, principal });
+};
+
+/**
+ * Challenge to send instead of tokens when the account has two-factor
+ * authentication enabled or its role requires it. Null when tokens can be issued.
+ * Accounts that still have to enrol are emailed a code, so the password alone
+ * is not enough to register an authenticator.
+ */
+export const createTwoFactorChallenge = async (
+  account: AuthUser,
+  principal: AuthPrincipal
+): Promise<TwoFactorChallenge | null> => {
+  const enabled = await TwoFactor.exists({ principalId: account._id, principal, enabledAt: { $ne: null } });
+  if (!enabled && !isTwoFactorRequired(account)) {
+    return null;
+  }
+
+  const expire = getChallengeExpire();
+  const payload: ChallengeTokenPayload = {
+    id: account._id.toString(),
+    principal,
+    typ: '2fa_challenge'
+  };
+
+  if (!enabled) {
+    const code = createCode();
+    payload.enc = hashEnrolmentCode(code);
+    await sendMail({
+      to: account.email,
+      subject: 'Your two-factor setup code',
+      text: `Hello ${account.name},\n\nYour account requires two-factor authentication. Use the code below to set it up. It expires in ${Math.ceil(expire / 60)} minutes.\n\n${code}\n\nIf you did not just log in, change your password right away.`
+    });
+  }
+  const options: SignOptions = { expiresIn: expire };
+
+  return {
+    two_factor_required: true,
+    enrolment_required: !enabled,
+    challenge_token: jwt.sign(payload, getChallengeSecret(), options),
+    expires_in: Date.now() + expire * 1000
+  };
+};
+
+/**
+ * Read the account a challenge token was issued to
+ */
+export const verifyTwoFactorChallenge = (token: string): VerifiedChallenge => {
+  let decoded: Partial<ChallengeTokenPayload>;
+  try {
+    decoded = jwt.verify(token, getChallengeSecret()) as Partial<ChallengeTokenPayload>;
+  } catch (err) {
+    throw new ErrorResponse('Invalid or expired challenge token', 401);
+  }
+
+  if (decoded.typ !== '2fa_challenge' || !decoded.id || !decoded.principal) {
+    throw new ErrorResponse('Invalid or expired challenge token', 401);
+  }
+
+  return { id: decoded.id, principal: decoded.principal, enrolmentCodeHash: decoded.enc };
+};
+
+/**
+ * Check the emailed enrolment code against the challenge it was sent with
+ */
+export const isEnrolmentCodeValid = (challenge: VerifiedChallenge, code: string): boolean => {
+  if (!challenge.enrolmentCodeHash) {
+    return false;
+  }
+  const expected = Buffer.from(challenge.enrolmentCodeHash);
+  const actual = Buffer.from(hashEnrolmentCode(code));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Revoke the sessions of accounts whose role requires two-factor authentication
+ * but that were not opened through a two-factor challenge, e.g. sessions from
+ * before the requirement was rolled out. Returns the number of revoked sessions.
+ */
+export const revokeSessionsWithoutTwoFactor = async (): Promise<number> => {
+  const roles = getRequiredRoles();
+  if (roles.length === 0) {
+    return 0;
+  }
+
+  const [userIds, workerIds] = await Promise.all([
+    User.find({ role: { $in: roles } }).distinct('_id'),
+    Worker.find({ role: { $in: roles } }).distinct('_id')
+  ]);
+
+  const revoke = (principal: AuthPrincipal, ids: Types.ObjectId[]) =>
+    Session.updateMany(
+      { principal, principalId: { $in: ids }, revokedAt: null, twoFactorVerified: { $ne: true } },
+      { revokedAt: new Date(), revokedReason: 'two_factor_required' }
+    );
+
+  const results = await Promise.all([revoke('user', userIds), revoke('worker', workerIds)]);
+  return results.reduce((sum, result) => sum + result.modifiedCount, 0);
+};
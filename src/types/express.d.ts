@@ -1,9 +1,14 @@
-import { IUser } from '../models/User';
+import { AuthUser, AuthPrincipal } from '../middleware/auth';
 
 declare global {
   namespace Express {
     interface Request {
-      user?: IUser;
+      user?: AuthUser;
+      principal?: AuthPrincipal;
+      // Session of the access token used for this request
+      sessionId?: string;
+      // Unparsed JSON body, kept for webhook signature checks
+      rawBody?: Buffer;
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { FilterQuery, HydratedDocument, Model, Query, Types } from 'mongoose';
+import ErrorResponse from './errorResponse';
+
+/**
+ * How a query string parameter is turned into a MongoDB filter
+ * - exact: field equals the value
+ * - boolean: 'true' / 'false'
+ * - regex: case-insensitive partial match on the escaped value
+ * - dateRange: `field[from]` and/or `field[to]`
+ */
+export type FilterKind = 'exact' | 'boolean' | 'regex' | 'dateRange';
+
+export interface ListQueryOptions {
+  // Fields clients may sort by; anything else is rejected
+  sortFields: string[];
+  defaultSort?: string;
+  defaultOrder?: 'asc' | 'desc';
+  // Query parameters that filter the list, keyed by field name
+  filters?: Record<string, FilterKind>;
+  // Fields matched by the `search` parameter
+  searchFields?: string[];
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+export interface ListQuery<T = unknown> {
+  filter: FilterQuery<T>;
+  sortField: string;
+  sortOrder: 1 | -1;
+  limit: number;
+  page: number;
+  // Set when the client asked for cursor pagination (an empty string means the first page)
+  cursor?: string;
+}
+
+export interface ListPagination {
+  limit: number;
+  hasMore: boolean;
+  // Offset pagination only
+  total?: number;
+  page?: number;
+  pages?: number;
+  // Cursor pagination only
+  nextCursor?: string | null;
+}
+
+export interface ListResult<T> {
+  data: T[];
+  pagination: ListPagination;
+}
+
+// Query for one page of documents; callers may populate or project it
+export type ListDocumentsQuery<T> = Query<HydratedDocument<T>[], HydratedDocument<T>, {}, T>;
+
+interface CursorPayload {
+  v: unknown;
+  d?: boolean;
+  id: string;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+// Longest search term accepted, keeps regex and text queries cheap
+export const MAX_SEARCH_LENGTH = 100;
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turn user input into a safe, literal regex pattern. Throws a 400 ErrorResponse
+ * when the term is longer than MAX_SEARCH_LENGTH.
+ */
+export const toSearchPattern = (value: unknown): string => {
+  const term = String(value).trim();
+  if (term.length > MAX_SEARCH_LENGTH) {
+    throw new ErrorResponse(`Search term cannot be longer than ${MAX_SEARCH_LENGTH} characters`, 400);
+  }
+  return escapeRegex(term);
+};
+
+const toPositiveInt = (value: unknown, fallback: number): number => {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const encodeCursor = (value: unknown, id: unknown): string => {
+  const payload: CursorPayload = value instanceof Date
+    ? { v: value.toISOString(), d: true, id: String(id) }
+    : { v: value, id: String(id) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+const decodeCursor = (cursor: string): { value: unknown; id: Types.ObjectId } => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload;
+    if (!Types.ObjectId.isValid(payload.id)) {
+      throw new Error('Invalid cursor id');
+    }
+    return {
+      // A missing sort value is left out of the JSON, read it back as null
+      value: payload.d ? new Date(payload.v as string) : payload.v ?? null,
+      id: new Types.ObjectId(payload.id)
+    };
+  } catch (err) {
+    throw new ErrorResponse('Invalid pagination cursor', 400);
+  }
+};
+
+/**
+ * Condition matching the documents after a cursor position. MongoDB sorts null
+ * and missing values before all others, so they come first in ascending and
+ * last in descending order and need their own branch.
+ */
+const afterCursor = (
+  field: string,
+  order: 1 | -1,
+  value: unknown,
+  id: Types.ObjectId
+): Record<string, unknown> => {
+  const op = order === 1 ? '$gt' : '$lt';
+  if (field === '_id') {
+    return { _id: { [op]: id } };
+  }
+
+  // { field: null } also matches documents without the field
+  const tie = { [field]: value, _id: { [op]: id } };
+  if (value === null) {
+    return order === 1 ? { $or: [tie, { [field]: { $ne: null } }] } : tie;
+  }
+
+  const later = [{ [field]: { [op]: value } }, tie];
+  return { $or: order === 1 ? later : [...later, { [field]: null }] };
+};
+
+/**
+ * Parse filters, sorting and pagination from a request query string
+ */
+export const parseListQuery = <T = unknown>(
+  query: Record<string, any>,
+  options: ListQueryOptions
+): ListQuery<T> => {
+  // Field names come from the options at runtime, so the filter cannot be checked against T
+  const filter: Record<string, unknown> = {};
+
+  for (const [field, kind] of Object.entries(options.filters ?? {})) {
+    const value = query[field];
+    if (value === undefined || value === '') {
+      continue;
+    }
+
+    if (kind === 'dateRange') {
+      if (typeof value !== 'object') {
+        continue;
+      }
+      const range: Record<string, Date> = {};
+      if (value.from) range.$gte = new Date(value.from);
+      if (value.to) range.$lte = new Date(value.to);
+      if (Object.keys(range).length > 0) {
+        filter[field] = range;
+      }
+    } else if (kind === 'boolean') {
+      filter[field] = String(value) === 'true';
+    } else if (kind === 'regex') {
+      filter[field] = { $regex: toSearchPattern(value), $options: 'i' };
+    } else {
+      filter[field] = String(value);
+    }
+  }
+
+  if (query.search && options.searchFields?.length) {
+    const pattern = toSearchPattern(query.search);
+    filter.$or = options.searchFields.map(field => ({
+      [field]: { $regex: pattern, $options: 'i' }
+    }));
+  }
+
+  const sortField = query.sortBy ? String(query.sortBy) : options.defaultSort ?? 'createdAt';
+  if (!options.sortFields.includes(sortField)) {
+    throw new ErrorResponse(
+      `Cannot sort by ${sortField}. Allowed fields: ${options.sortFields.join(', ')}`,
+      400
+    );
+  }
+
+  const order = query.order ?? options.defaultOrder ?? 'desc';
+  const maxLimit = options.maxLimit ?? MAX_LIMIT;
+
+  return {
+    filter: filter as FilterQuery<T>,
+    sortField,
+    sortOrder: order === 'asc' ? 1 : -1,
+    limit: Math.min(toPositiveInt(query.limit, options.defaultLimit ?? DEFAULT_LIMIT), maxLimit),
+    page: toPositiveInt(query.page, 1),
+    cursor: query.cursor === undefined ? undefined : String(query.cursor)
+  };
+};
+
+/**
+ * Run a parsed list query. Cursor pagination is used when a cursor was given;
+ * it skips the total count and stays fast on large collections. Otherwise
+ * classic page/limit pagination is used.
+ */
+export const runListQuery = async <T>(
+  model: Model<T>,
+  baseFilter: FilterQuery<T>,
+  list: ListQuery<NoInfer<T>>,
+  customize: (query: ListDocumentsQuery<T>) => ListDocumentsQuery<T> = query => query
+): Promise<ListResult<HydratedDocument<T>>> => {
+  const filter: FilterQuery<T> = { ...baseFilter, ...list.filter };
+  // _id breaks ties so every document has a stable position
+  const sort: Record<string, 1 | -1> = { [list.sortField]: list.sortOrder, _id: list.sortOrder };
+
+  if (list.cursor !== undefined) {
+    const conditions: FilterQuery<T>[] = [filter];
+
+    if (list.cursor) {
+      const { value, id } = decodeCursor(list.cursor);
+      // The sort field is only known at runtime, so the condition cannot be checked against T
+      conditions.push(afterCursor(list.sortField, list.sortOrder, value, id) as FilterQuery<T>);
+    }
+
+    // Fetch one extra document to know whether another page exists
+    const docs = await customize(
+      model.find(conditions.length > 1 ? { $and: conditions } : filter)
+        .sort(sort)
+        .limit(list.limit + 1)
+    );
+
+    const hasMore = docs.length > list.limit;
+    const data = hasMore ? docs.slice(0, list.limit) : docs;
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      pagination: {
+        limit: list.limit,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor(last.get(list.sortField), last._id) : null
+      }
+    };
+  }
+
+  const startIndex = (list.page - 1) * list.limit;
+  const [total, data] = await Promise.all([
+    model.countDocuments(filter),
+    customize(model.find(filter).sort(sort).skip(startIndex).limit(list.limit))
+  ]);
+
+  return {
+    data,
+    pagination: {
+      limit: list.limit,
+      hasMore: startIndex + data.length < total,
+      total,
+      page: list.page,
+      pages: Math.ceil(total / list.limit)
+    }
+  };
+};
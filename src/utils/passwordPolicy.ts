@@ -0,0 +1,63 @@
+import { body, ValidationChain } from 'express-validator';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+const flag = (name: string): boolean => process.env[name] === 'true';
+
+/**
+ * Password rules from the environment. The defaults match the 6 character
+ * minimum of the User and Worker models.
+ */
+export const getPasswordPolicy = (): PasswordPolicy => ({
+  minLength: process.env.PASSWORD_MIN_LENGTH ? parseInt(process.env.PASSWORD_MIN_LENGTH) : 6,
+  requireUppercase: flag('PASSWORD_REQUIRE_UPPERCASE'),
+  requireLowercase: flag('PASSWORD_REQUIRE_LOWERCASE'),
+  requireNumber: flag('PASSWORD_REQUIRE_NUMBER'),
+  requireSymbol: flag('PASSWORD_REQUIRE_SYMBOL')
+});
+
+/**
+ * List the rules a password breaks, empty when it is acceptable
+ */
+export const checkPassword = (password: string, policy: PasswordPolicy = getPasswordPolicy()): string[] => {
+  const problems: string[] = [];
+
+  if (password.length < policy.minLength) {
+    problems.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    problems.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    problems.push('Password must contain a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z\d]/.test(password)) {
+    problems.push('Password must contain a symbol');
+  }
+
+  return problems;
+};
+
+/**
+ * Validation chain that applies the password policy to a body field
+ */
+export const passwordPolicyValidator = (field = 'password'): ValidationChain =>
+  body(field)
+    .isString()
+    .withMessage('Password is required')
+    .custom((value: string) => {
+      const problems = checkPassword(value);
+      if (problems.length > 0) {
+        throw new Error(problems.join('. '));
+      }
+      return true;
+    });
@@ -0,0 +1,85 @@
+// Time zone helpers built on Intl, so no extra date library is needed
+
+export const getDefaultTimeZone = (): string => process.env.DEFAULT_TIMEZONE || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// Read the local date and time of an instant in the given time zone
+const getWallClock = (instant: Date, timeZone: string): WallClock => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(part => part.type === type)?.value ?? '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute')
+  };
+};
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+const getOffset = (instant: Date, timeZone: string): number => {
+  const wall = getWallClock(instant, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  return wallAsUtc - Math.floor(instant.getTime() / 60000) * 60000;
+};
+
+/**
+ * Convert a calendar date and an "HH:mm" local time in a time zone into a UTC instant.
+ * Only the calendar day (in UTC) of `date` is used.
+ */
+export const zonedTimeToUtc = (date: Date | string, time: string, timeZone: string): Date => {
+  const day = new Date(date);
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  const wallAsUtc = Date.UTC(
+    day.getUTCFullYear(),
+    day.getUTCMonth(),
+    day.getUTCDate(),
+    Number.isNaN(hours) ? 0 : hours,
+    Number.isNaN(minutes) ? 0 : minutes
+  );
+
+  // Apply the offset twice so times next to a DST change resolve correctly
+  const firstGuess = wallAsUtc - getOffset(new Date(wallAsUtc), timeZone);
+  return new Date(wallAsUtc - getOffset(new Date(firstGuess), timeZone));
+};
+
+/**
+ * Split a UTC instant into the local calendar date (midnight UTC of that day)
+ * and "HH:mm" time in a time zone
+ */
+export const utcToZonedParts = (instant: Date, timeZone: string): { date: Date; time: string } => {
+  const wall = getWallClock(instant, timeZone);
+  const pad = (value: number): string => value.toString().padStart(2, '0');
+
+  return {
+    date: new Date(Date.UTC(wall.year, wall.month - 1, wall.day)),
+    time: `${pad(wall.hour)}:${pad(wall.minute)}`
+  };
+};